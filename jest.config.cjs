@@ -18,7 +18,14 @@ module.exports = {
     }
   },
   moduleFileExtensions: ['ts', 'js', 'json'],
+  // Sources import siblings with the .js extension Node ESM requires
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1'
+  },
   transform: {
-    '^.+\\.ts$': 'ts-jest'
-  }
+    '^.+\\.ts$': 'ts-jest',
+    '^.+\\.js$': ['ts-jest', { tsconfig: { allowJs: true } }]
+  },
+  // The MCP SDK ships ES modules only
+  transformIgnorePatterns: ['node_modules/(?!@modelcontextprotocol/sdk/)']
 };
@@ -0,0 +1,114 @@
+/**
+ * Tests for AuditLog
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { AuditLog, AuditRecord, hashArguments } from '../utils/auditLog.js';
+import { queryAuditLogTool } from '../tools/queryAuditLog.js';
+import { ToolInvocation } from '../tools/registry.js';
+import { ServerConfig, ValidationError } from '../types.js';
+
+describe('AuditLog', () => {
+  let root: string;
+  let config: ServerConfig['audit'];
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'foundation-audit-'));
+    config = {
+      enabled: true,
+      path: path.join(root, 'logs/audit.jsonl'),
+      maxBytes: 1024 * 1024,
+      maxFiles: 2,
+      redactArguments: ['code'],
+      crossSessionQueries: false,
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const call = (name: string, overrides: Partial<AuditRecord> = {}): AuditRecord => ({
+    session: 'stdio',
+    kind: 'tool',
+    name,
+    args: {},
+    durationMs: 5,
+    outcome: 'success',
+    ...overrides,
+  });
+
+  it('should append entries with redacted source and generated files', async () => {
+    const log = new AuditLog(config);
+    const args = { code: 'class Tabs {}', patternType: 'plugin' };
+    await log.record(call('analyze_pattern', { args }));
+    await log.record(call('generate_plugin', { files: ['js/foundation.tabs.js'] }));
+
+    const lines = (await fs.readFile(config.path, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toHaveLength(2);
+    expect(lines[0].argsHash).toBe(hashArguments({ patternType: 'plugin', code: 'class Tabs {}' }));
+    expect(lines[0].args.patternType).toBe('plugin');
+    expect(lines[0].args.code).toMatchObject({ redacted: true, length: 13 });
+    expect(JSON.stringify(lines[0])).not.toContain('class Tabs');
+    expect(lines[1].files).toEqual(['js/foundation.tabs.js']);
+  });
+
+  it('should rotate by size and query across rotated files', async () => {
+    const log = new AuditLog({ ...config, maxBytes: 1024 });
+    for (let index = 0; index < 20; index++) {
+      await log.record(call(`tool_${index}`, { outcome: index % 2 ? 'error' : 'success' }));
+    }
+
+    const files = await fs.readdir(path.dirname(config.path));
+    expect(files.sort()).toEqual(['audit.jsonl', 'audit.jsonl.1', 'audit.jsonl.2']);
+
+    const recent = await log.query({ limit: 3 });
+    expect(recent.map(entry => entry.name)).toEqual(['tool_19', 'tool_18', 'tool_17']);
+
+    const errors = await log.query({ outcome: 'error', limit: 100 });
+    expect(errors.every(entry => entry.outcome === 'error')).toBe(true);
+    expect(errors[0].name).toBe('tool_19');
+  });
+
+  it('should write nothing when disabled', async () => {
+    const log = new AuditLog({ ...config, enabled: false });
+    await log.record(call('get_server_status'));
+
+    await expect(fs.access(config.path)).rejects.toThrow();
+    expect(await log.query()).toEqual([]);
+  });
+
+  describe('query_audit_log', () => {
+    const query = (log: AuditLog, args: Record<string, unknown>, sessionId: string) =>
+      queryAuditLogTool.handler(
+        queryAuditLogTool.schema.parse(args),
+        { services: { auditLog: log }, sessionId } as unknown as ToolInvocation
+      );
+
+    const recordSessions = async (log: AuditLog) => {
+      await log.record(call('get_server_status', { session: 'http-a' }));
+      await log.record(call('validate_plugin', { session: 'http-b', args: { path: '/srv/app/tabs.js' } }));
+    };
+
+    it("should only return the caller's session by default", async () => {
+      const log = new AuditLog(config);
+      await recordSessions(log);
+
+      const result = await query(log, {}, 'http-a');
+      expect(result.entries.map(entry => entry.session)).toEqual(['http-a']);
+      await expect(query(log, { session: 'http-b' }, 'http-a')).rejects.toThrow(ValidationError);
+      await expect(query(log, { session: '*' }, 'http-a')).rejects.toThrow(ValidationError);
+    });
+
+    it('should query other sessions when the server allows it', async () => {
+      const log = new AuditLog({ ...config, crossSessionQueries: true });
+      await recordSessions(log);
+
+      expect((await query(log, { session: 'http-b' }, 'http-a')).entries.map(entry => entry.name))
+        .toEqual(['validate_plugin']);
+      expect((await query(log, { session: '*' }, 'http-a')).entries).toHaveLength(2);
+    });
+  });
+});
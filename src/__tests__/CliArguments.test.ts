@@ -0,0 +1,55 @@
+/**
+ * Tests for CLI argument parsing
+ */
+
+import { buildToolArguments, isBooleanOption, parseArgv } from '../cli/arguments.js';
+import { GeneratePluginSchema, ValidationError } from '../types.js';
+
+describe('CLI arguments', () => {
+  it('should split positionals and flags', () => {
+    const parsed = parseArgv(
+      ['MyTabs', '--slug', 'my-tabs', '--description=Tabs', '--no-include-tests', '--', '--literal'],
+      flag => flag === 'include-tests'
+    );
+
+    expect(parsed.positionals).toEqual(['MyTabs', '--literal']);
+    expect(parsed.flags).toEqual({
+      slug: 'my-tabs',
+      description: 'Tabs',
+      'include-tests': false,
+    });
+  });
+
+  it('should not let boolean flags consume the next argument', () => {
+    const parsed = parseArgv(
+      ['--features.keyboard', 'MyTabs'],
+      flag => isBooleanOption(GeneratePluginSchema, flag)
+    );
+
+    expect(parsed.positionals).toEqual(['MyTabs']);
+    expect(parsed.flags).toEqual({ 'features.keyboard': true });
+  });
+
+  it('should type flags with the tool schema', () => {
+    const args = buildToolArguments(
+      GeneratePluginSchema,
+      {
+        slug: 'my-tabs',
+        'include-docs': 'false',
+        'features.keyboard': true,
+      },
+      { name: 'MyTabs', features: { touch: true } }
+    );
+
+    expect(args).toEqual({
+      name: 'MyTabs',
+      slug: 'my-tabs',
+      includeDocs: false,
+      features: { touch: true, keyboard: true },
+    });
+  });
+
+  it('should reject options the tool does not accept', () => {
+    expect(() => buildToolArguments(GeneratePluginSchema, { bogus: 'x' })).toThrow(ValidationError);
+  });
+});
@@ -3,8 +3,11 @@
  */
 
 import { CodebaseIndexer } from '../engines/CodebaseIndexer.js';
-import { ServerConfig } from '../types.js';
+import { IndexSnapshotStore } from '../engines/IndexSnapshot.js';
+import { CancelledError, ProgressUpdate, ServerConfig } from '../types.js';
 import { MemoryCache } from '../utils/cache.js';
+import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
 
 describe('CodebaseIndexer', () => {
@@ -14,9 +17,23 @@ describe('CodebaseIndexer', () => {
 
   beforeEach(() => {
     config = {
+      transport: 'stdio',
+      host: '127.0.0.1',
       port: 8000,
       logLevel: 'error', // Reduce noise in tests
       foundationRepoPath: path.resolve(__dirname, '../../../'),
+      workspaces: [],
+      extensions: [],
+      toolDefaults: {},
+      snapshot: { enabled: false, directory: os.tmpdir() },
+      audit: {
+        enabled: false,
+        path: 'audit.jsonl',
+        maxBytes: 1024 * 1024,
+        maxFiles: 1,
+        redactArguments: [],
+        crossSessionQueries: false,
+      },
       cache: {
         ttl: 3600,
         backend: 'memory',
@@ -24,16 +41,45 @@ describe('CodebaseIndexer', () => {
       },
       performance: {
         maxConcurrentOperations: 10,
+        indexWaitMs: 1000,
+        parseWorkers: 0,
+        workerMinInputBytes: 0,
       },
       security: {
         enableRateLimiting: false,
         rateLimitPerMinute: 60,
+        expensiveRateLimitPerMinute: 10,
+      },
+      watch: {
+        enabled: false,
+        debounceMs: 250,
       },
     };
     cache = new MemoryCache(1000, 3600);
     indexer = new CodebaseIndexer(config, cache);
   });
 
+  let repoPath: string;
+  const repos: string[] = [];
+
+  /**
+   * Write a checkout from relative paths to file contents and index it
+   */
+  const createRepo = async (files: Record<string, string>) => {
+    repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'foundation-'));
+    repos.push(repoPath);
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(repoPath, file)), { recursive: true });
+      await fs.writeFile(path.join(repoPath, file), content);
+    }
+    config.foundationRepoPath = repoPath;
+    indexer = new CodebaseIndexer(config, cache);
+  };
+
+  afterEach(async () => {
+    await Promise.all(repos.splice(0).map(repo => fs.rm(repo, { recursive: true, force: true })));
+  });
+
   describe('buildIndex', () => {
     it('should build an index with plugins and components', async () => {
       const index = await indexer.buildIndex();
@@ -63,4 +109,611 @@ describe('CodebaseIndexer', () => {
       expect(hasCache).toBe(false);
     });
   });
+
+  describe('reindexFiles', () => {
+    beforeEach(async () => {
+      await createRepo({
+        'scss/components/_badge.scss': '@mixin badge-base { display: inline-block; }\n',
+      });
+    });
+
+    it('should re-parse changed files and patch the cached index', async () => {
+      const badgePath = path.join(repoPath, 'scss/components/_badge.scss');
+      await indexer.buildIndex();
+
+      await fs.writeFile(badgePath, '@mixin badge-base {}\n@mixin badge-color {}\n');
+      const changes = await indexer.reindexFiles([badgePath]);
+      const index = await indexer.buildIndex();
+
+      expect(changes.components).toEqual(['badge']);
+      expect(index.components).toHaveLength(1);
+      expect(index.components[0].mixins).toEqual(['badge-base', 'badge-color']);
+    });
+
+    it('should remove deleted files from the index', async () => {
+      const badgePath = path.join(repoPath, 'scss/components/_badge.scss');
+      await indexer.buildIndex();
+
+      await fs.rm(badgePath);
+      await indexer.reindexFiles([badgePath]);
+      const index = await indexer.buildIndex();
+
+      expect(index.components).toHaveLength(0);
+    });
+
+    it('should serve a partial index when source directories are missing', async () => {
+      expect(indexer.getStats().state).toBe('pending');
+      expect(indexer.isReady()).toBe(false);
+
+      const index = await indexer.buildIndex();
+
+      expect(index.components).toHaveLength(1);
+      expect(indexer.getStats()).toMatchObject({ state: 'partial', missingDirectories: ['js'] });
+      expect(indexer.isReady()).toBe(true);
+    });
+
+    it('should ignore files outside the indexed directories', async () => {
+      const changes = await indexer.reindexFiles([path.join(repoPath, 'README.md')]);
+
+      expect(changes).toEqual({
+        plugins: [],
+        components: [],
+        utilities: [],
+        docs: [],
+        settings: [],
+        sassApi: [],
+        grids: [],
+      });
+    });
+  });
+
+  describe('plugin API', () => {
+    beforeEach(async () => {
+      await createRepo({
+        'js/foundation.tabs.js': `
+class Tabs extends Plugin {
+  _init() {}
+
+  /**
+   * Opens the tab for a panel.
+   * @param {jQuery} $target - Panel to show.
+   * @param {boolean} [historyHandled=false] - Whether the history was already updated.
+   * @function
+   */
+  selectTab($target, historyHandled) {
+    /**
+     * Fires when the plugin has successfully changed tabs.
+     * @event Tabs#change
+     */
+    this.$element.trigger('change.zf.tabs', [$target]);
+  }
+
+  _collapse() {
+    $target.trigger('change.zf.tabs');
+  }
+
+  _destroy() {}
+}
+
+Tabs.defaults = {
+  /**
+   * Amount of time to animate tab panes.
+   * @option
+   * @type {number}
+   * @default 250
+   */
+  slideSpeed: 250,
+  /**
+   * Class applied to the active tab.
+   * @option
+   * @example 'is-active'
+   */
+  linkActiveClass: 'is-active',
+  deepLink: false,
+};
+`,
+      });
+    });
+
+    it('should index Plugin.defaults with their data- attributes', async () => {
+      const index = await indexer.buildIndex();
+
+      expect(index.plugins[0].options).toEqual([
+        {
+          name: 'slideSpeed',
+          type: 'number',
+          default: '250',
+          description: 'Amount of time to animate tab panes.',
+          dataAttribute: 'data-slide-speed',
+        },
+        {
+          name: 'linkActiveClass',
+          type: 'string',
+          default: "'is-active'",
+          description: 'Class applied to the active tab.',
+          dataAttribute: 'data-link-active-class',
+          example: "'is-active'",
+        },
+        {
+          name: 'deepLink',
+          type: 'boolean',
+          default: 'false',
+          description: '',
+          dataAttribute: 'data-deep-link',
+        },
+      ]);
+    });
+
+    it('should index public methods and fired events', async () => {
+      const [plugin] = (await indexer.buildIndex()).plugins;
+
+      expect(plugin.methods).toEqual([
+        {
+          name: 'selectTab',
+          signature: 'selectTab($target, [historyHandled])',
+          params: [
+            { name: '$target', type: 'jQuery', description: 'Panel to show.', optional: false },
+            {
+              name: 'historyHandled',
+              type: 'boolean',
+              description: 'Whether the history was already updated.',
+              optional: true,
+              default: 'false',
+            },
+          ],
+          description: 'Opens the tab for a panel.',
+        },
+      ]);
+      expect(plugin.events).toEqual([
+        {
+          name: 'change.zf.tabs',
+          description: 'Fires when the plugin has successfully changed tabs.',
+          firedFrom: ['this.$element', '$target'],
+        },
+      ]);
+    });
+  });
+
+  describe('settings', () => {
+    beforeEach(async () => {
+      await createRepo({
+        'scss/settings/_settings.scss': `
+//  Table of Contents:
+//   1. Global
+//   2. Badge
+
+// 1. Global
+// ---------
+
+$global-font-size: 100%;
+
+// 2. Badge
+// --------
+
+$badge-background: $primary-color;
+$badge-padding: 0.3em;
+`,
+        'scss/components/_badge.scss': `
+////
+/// @group badge
+////
+
+/// Default background color for badges.
+/// @type Color
+$badge-background: $primary-color !default;
+
+/// Default padding inside badges.
+/// @type Number
+$badge-padding: 0.3em !default;
+
+$badge-local: 1px;
+
+@mixin badge { padding: $badge-padding; }
+`,
+      });
+    });
+
+    it('should merge the settings file with component defaults', async () => {
+      const index = await indexer.buildIndex();
+
+      expect(index.settings).toEqual([
+        {
+          name: '$global-font-size',
+          default: '100%',
+          type: null,
+          description: '',
+          component: null,
+          section: 'Global',
+        },
+        {
+          name: '$badge-background',
+          default: '$primary-color',
+          type: 'Color',
+          description: 'Default background color for badges.',
+          component: 'badge',
+          section: 'Badge',
+        },
+        {
+          name: '$badge-padding',
+          default: '0.3em',
+          type: 'Number',
+          description: 'Default padding inside badges.',
+          component: 'badge',
+          section: 'Badge',
+        },
+      ]);
+    });
+
+    it('should rebuild the catalog when a component changes', async () => {
+      await indexer.buildIndex();
+      const badgePath = path.join(repoPath, 'scss/components/_badge.scss');
+      await fs.writeFile(badgePath, '/// Badge padding.\n$badge-padding: 0.5em !default;\n');
+
+      const changes = await indexer.reindexFiles([badgePath]);
+      const { settings } = await indexer.buildIndex();
+
+      expect(changes.settings).toEqual(['settings']);
+      expect(settings.find(setting => setting.name === '$badge-padding')).toMatchObject({
+        default: '0.5em',
+        type: null,
+        description: 'Badge padding.',
+      });
+      expect(settings.find(setting => setting.name === '$badge-background')).toMatchObject({
+        default: '$primary-color',
+        component: 'badge',
+      });
+    });
+  });
+
+  describe('Sass API', () => {
+    beforeEach(async () => {
+      await createRepo({
+        'scss/util/_unit.scss': `
+////
+/// @group functions
+////
+
+/// Converts one or more pixel values into matching rem values.
+///
+/// @param {Number|List} $values - One or more values to convert.
+/// @param {Number} $base [null] - The base value to use when calculating the \`rem\`.
+///   Defaults to \`$global-font-size\`.
+///
+/// @returns {List} A list of converted values.
+@function rem-calc($values, $base: null) {
+  @return $values;
+}
+
+/// Converts a pixel, percentage, rem or em value to a unitless value.
+/// @access private
+@function -zf-bp-to-em($value) {
+  @return $value;
+}
+`,
+        'scss/util/_breakpoint.scss': `
+/// Wraps a media query around the content you put inside the mixin.
+///
+/// @param {Keyword|Number} $values... - Breakpoint name, or px, rem, or em value to process.
+///
+/// @output If the breakpoint is "0px and larger", outputs the content as-is.
+@mixin breakpoint($values...) {
+  @content;
+}
+`,
+      });
+    });
+
+    it('should index functions and mixins with their SassDoc', async () => {
+      const index = await indexer.buildIndex();
+
+      expect(index.sassApi.map(entry => entry.name)).toEqual(['breakpoint', 'rem-calc', '-zf-bp-to-em']);
+      expect(index.sassApi[0]).toEqual({
+        name: 'breakpoint',
+        kind: 'mixin',
+        signature: 'breakpoint($values...)',
+        params: [{
+          name: '$values...',
+          default: null,
+          type: 'Keyword|Number',
+          description: 'Breakpoint name, or px, rem, or em value to process.',
+        }],
+        returns: null,
+        description: 'Wraps a media query around the content you put inside the mixin.',
+        isPrivate: false,
+        file: path.join('scss', 'util', '_breakpoint.scss'),
+      });
+      expect(index.sassApi[1]).toMatchObject({
+        kind: 'function',
+        signature: 'rem-calc($values, $base: null)',
+        returns: 'List',
+        params: [
+          { name: '$values', default: null, type: 'Number|List' },
+          {
+            name: '$base',
+            default: 'null',
+            type: 'Number',
+            description: 'The base value to use when calculating the `rem`. Defaults to `$global-font-size`.',
+          },
+        ],
+      });
+      expect(index.sassApi[2].isPrivate).toBe(true);
+    });
+
+    it('should re-index a changed util file', async () => {
+      await indexer.buildIndex();
+      const unitPath = path.join(repoPath, 'scss/util/_unit.scss');
+      await fs.writeFile(unitPath, '/// Removes the unit.\n/// @returns {Number}\n@function strip-unit($num) { @return $num; }\n');
+
+      const changes = await indexer.reindexFiles([unitPath]);
+      const { sassApi } = await indexer.buildIndex();
+
+      expect(changes.sassApi).toEqual(['unit']);
+      expect(sassApi.map(entry => entry.name)).toEqual(['breakpoint', 'strip-unit']);
+      expect(sassApi[1]).toMatchObject({ returns: 'Number', description: 'Removes the unit.' });
+    });
+
+    it('should keep the other files when re-indexing an index taken from the cache', async () => {
+      await indexer.buildIndex();
+      const restarted = new CodebaseIndexer(config, cache);
+      await restarted.buildIndex();
+      const unitPath = path.join(repoPath, 'scss/util/_unit.scss');
+      await fs.writeFile(unitPath, '/// Removes the unit.\n/// @returns {Number}\n@function strip-unit($num) { @return $num; }\n');
+
+      await restarted.reindexFiles([unitPath]);
+      const { sassApi } = await restarted.buildIndex();
+
+      expect(sassApi.map(entry => entry.name)).toEqual(['breakpoint', 'strip-unit']);
+    });
+  });
+
+  describe('grids', () => {
+    beforeEach(async () => {
+      await createRepo({
+        'scss/settings/_settings.scss': `
+$breakpoints: (
+  small: 0,
+  medium: 640px,
+  large: 1024px,
+);
+$breakpoint-classes: (small medium);
+`,
+        'scss/xy-grid/_xy-grid.scss': `
+/// The maximum number of cells in an XY grid row.
+/// @type Number
+$grid-columns: 12 !default;
+
+/// Creates a container for your flex cells.
+/// @param {Keyword} $direction [horizontal] - Either horizontal or vertical direction of cells within.
+@mixin xy-grid($direction: horizontal, $wrap: true) {}
+`,
+        'scss/xy-grid/_classes.scss': `
+@mixin xy-base-grid-classes {
+  .grid-x { @include xy-grid; }
+  .cell { flex: 0 0 auto; }
+  .grid-x > .auto { flex: 1 1 0; }
+}
+
+@mixin xy-cell-size-classes {
+  @include -zf-each-breakpoint {
+    @for $i from 1 through $grid-columns {
+      .grid-x > .#{$-zf-size}-#{$i} { width: 1px; }
+    }
+  }
+  @each $size in $breakpoint-classes {
+    @include breakpoint($size) {
+      .grid-x > .#{$size}-shrink, .grid-margin-x { flex: 0 0 auto; }
+    }
+  }
+}
+`,
+      });
+    });
+
+    it('should derive mixins, variables and class patterns from the grid sources', async () => {
+      const [xyGrid, floatGrid] = (await indexer.buildIndex()).grids;
+
+      expect(xyGrid).toMatchObject({ slug: 'xy-grid', columns: 12 });
+      expect(xyGrid.breakpoints).toEqual([
+        { name: 'small', minWidth: '0', hasClasses: true },
+        { name: 'medium', minWidth: '640px', hasClasses: true },
+        { name: 'large', minWidth: '1024px', hasClasses: false },
+      ]);
+      expect(xyGrid.mixins.map(mixin => mixin.name)).toEqual(['xy-base-grid-classes', 'xy-cell-size-classes', 'xy-grid']);
+      expect(xyGrid.mixins[2].params[0]).toMatchObject({ name: '$direction', default: 'horizontal', type: 'Keyword' });
+      expect(xyGrid.variables).toMatchObject([{ name: '$grid-columns', value: '12', type: 'Number' }]);
+      expect(xyGrid.classes).toEqual([
+        { pattern: 'grid-x', responsive: false, mixin: 'xy-base-grid-classes', examples: [] },
+        { pattern: 'cell', responsive: false, mixin: 'xy-base-grid-classes', examples: [] },
+        { pattern: 'auto', responsive: false, mixin: 'xy-base-grid-classes', examples: [] },
+        { pattern: '{breakpoint}-{n}', responsive: true, mixin: 'xy-cell-size-classes', examples: ['small-6', 'medium-6'] },
+        { pattern: '{breakpoint}-shrink', responsive: true, mixin: 'xy-cell-size-classes', examples: ['small-shrink', 'medium-shrink'] },
+        { pattern: 'grid-margin-x', responsive: true, mixin: 'xy-cell-size-classes', examples: [] },
+      ]);
+      expect(floatGrid).toMatchObject({ slug: 'float-grid', mixins: [], classes: [] });
+    });
+
+    it('should rebuild a grid when one of its files changes', async () => {
+      await indexer.buildIndex();
+      const gridPath = path.join(repoPath, 'scss/xy-grid/_xy-grid.scss');
+      await fs.writeFile(gridPath, '$grid-columns: 16 !default;\n');
+
+      const changes = await indexer.reindexFiles([gridPath]);
+      const [xyGrid] = (await indexer.buildIndex()).grids;
+
+      expect(changes.grids).toEqual(['xy-grid']);
+      expect(xyGrid.columns).toBe(16);
+      expect(xyGrid.classes.find(pattern => pattern.pattern === '{breakpoint}-{n}')?.examples).toEqual(['small-8', 'medium-8']);
+    });
+  });
+
+  describe('docs', () => {
+    beforeEach(async () => {
+      await createRepo({
+        'js/foundation.dropdownMenu.js': 'class DropdownMenu extends Plugin { _init() {} _destroy() {} }\n',
+        'scss/components/_dropdown-menu.scss': '@mixin dropdown-menu {}\n',
+        'scss/components/_menu.scss': '@mixin menu-base {}\n',
+        'docs/pages/dropdown-menu.md': `---
+title: Dropdown Menu
+description: Change a basic Menu into an expandable dropdown menu.
+sass:
+  - scss/components/_dropdown-menu.scss
+  - scss/components/_menu.scss
+js: js/foundation.dropdownMenu.js
+tags: [navigation, menu]
+---
+
+Dropdown menus build on the Menu component.
+
+## Basics
+
+Add \`data-dropdown-menu\` to a menu.
+
+\`\`\`html_example
+<ul class="dropdown menu" data-dropdown-menu></ul>
+\`\`\`
+
+### Sticky Navigation
+
+See the Sticky plugin.
+
+## Accessibility
+
+\`\`\`js
+new Foundation.DropdownMenu(element);
+\`\`\`
+`,
+      });
+    });
+
+    it('should parse docs pages and link them to what they document', async () => {
+      const index = await indexer.buildIndex();
+      const [page] = index.docs;
+
+      expect(page).toMatchObject({
+        slug: 'dropdown-menu',
+        title: 'Dropdown Menu',
+        url: 'https://get.foundation/sites/docs/dropdown-menu.html',
+        frontMatter: {
+          description: 'Change a basic Menu into an expandable dropdown menu.',
+          sass: ['scss/components/_dropdown-menu.scss', 'scss/components/_menu.scss'],
+          js: ['js/foundation.dropdownMenu.js'],
+          tags: ['navigation', 'menu'],
+        },
+        plugins: ['dropdownMenu'],
+        components: ['dropdown-menu', 'menu'],
+      });
+      expect(page.headings).toEqual([
+        { level: 2, text: 'Basics', anchor: 'basics' },
+        { level: 3, text: 'Sticky Navigation', anchor: 'sticky-navigation' },
+        { level: 2, text: 'Accessibility', anchor: 'accessibility' },
+      ]);
+      expect(page.sections.map(section => section.heading)).toEqual([null, 'Basics', 'Accessibility']);
+      expect(page.sections[1].content).toContain('### Sticky Navigation');
+      expect(page.examples).toEqual([
+        { language: 'html_example', code: '<ul class="dropdown menu" data-dropdown-menu></ul>\n', section: 'Basics' },
+        { language: 'js', code: 'new Foundation.DropdownMenu(element);\n', section: 'Accessibility' },
+      ]);
+
+      expect(index.plugins[0]).toMatchObject({ docsPage: 'dropdown-menu', docs: page.url });
+      expect(index.components.map(component => component.docsPage)).toEqual(['dropdown-menu', 'dropdown-menu']);
+    });
+
+    it('should re-link a changed docs page', async () => {
+      await indexer.buildIndex();
+      const pagePath = path.join(repoPath, 'docs/pages/dropdown-menu.md');
+      await fs.writeFile(pagePath, '---\ntitle: Dropdown Menu\n---\n\n## Basics\n');
+
+      const changes = await indexer.reindexFiles([pagePath]);
+      const index = await indexer.buildIndex();
+
+      expect(changes.docs).toEqual(['dropdown-menu']);
+      expect(index.docs[0]).toMatchObject({ plugins: ['dropdownMenu'], components: ['dropdown-menu'] });
+      expect(index.components.find(component => component.slug === 'menu')?.docsPage).toBeNull();
+    });
+  });
+
+  describe('snapshot', () => {
+    let snapshotDir: string;
+
+    beforeEach(async () => {
+      snapshotDir = await fs.mkdtemp(path.join(os.tmpdir(), 'foundation-snapshot-'));
+      await createRepo({
+        'scss/components/_badge.scss': '@mixin badge-base {}\n',
+        'scss/components/_label.scss': '@mixin label-base {}\n',
+      });
+    });
+
+    afterEach(async () => {
+      await fs.rm(snapshotDir, { recursive: true, force: true });
+    });
+
+    // A fresh process: empty cache, snapshot on disk
+    const restart = () => new CodebaseIndexer(
+      config,
+      new MemoryCache(1000, 3600),
+      undefined,
+      new IndexSnapshotStore({ enabled: true, directory: snapshotDir }, repoPath, '6.9.0')
+    );
+
+    it('should only re-parse files that changed since the snapshot', async () => {
+      await restart().buildIndex();
+
+      const unchanged = restart();
+      await unchanged.buildIndex();
+      expect(unchanged.getStats()).toMatchObject({ parsedFiles: 0, reusedFiles: 2 });
+
+      await fs.writeFile(path.join(repoPath, 'scss/components/_badge.scss'), '@mixin badge-color {}\n');
+      const changed = restart();
+      const index = await changed.buildIndex();
+
+      expect(changed.getStats()).toMatchObject({ parsedFiles: 1, reusedFiles: 1 });
+      expect(index.components.find(c => c.slug === 'badge')?.mixins).toEqual(['badge-color']);
+    });
+
+    it('should re-parse everything on a forced rebuild', async () => {
+      const indexer = restart();
+      await indexer.buildIndex();
+      await indexer.rebuildIndex();
+
+      expect(indexer.getStats()).toMatchObject({ parsedFiles: 2, reusedFiles: 0 });
+    });
+  });
+
+  describe('progress and cancellation', () => {
+    beforeEach(async () => {
+      await createRepo({
+        'scss/components/_badge.scss': '@mixin badge-base {}\n',
+        'scss/components/_label.scss': '@mixin label-base {}\n',
+      });
+    });
+
+    it('should report one step per parsed file', async () => {
+      const updates: ProgressUpdate[] = [];
+
+      await indexer.buildIndex({ onProgress: update => updates.push(update) });
+
+      expect(updates[0]).toMatchObject({ progress: 0, total: 2 });
+      expect(updates[updates.length - 1]).toMatchObject({ progress: 2, total: 2 });
+    });
+
+    it('should reject and skip caching when cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(indexer.buildIndex({ signal: controller.signal }))
+        .rejects.toBeInstanceOf(CancelledError);
+      expect(await cache.has('foundation:plugins:index')).toBe(false);
+    });
+
+    it('should keep building for callers that did not cancel', async () => {
+      const controller = new AbortController();
+
+      const cancelled = indexer.buildIndex({ signal: controller.signal });
+      const kept = indexer.buildIndex();
+      controller.abort();
+
+      await expect(cancelled).rejects.toBeInstanceOf(CancelledError);
+      expect((await kept).components).toHaveLength(2);
+    });
+  });
 });
@@ -0,0 +1,152 @@
+/**
+ * Tests for CompletionHandler
+ */
+
+import { CompletionHandler, CompletionRequestSchema } from '../handlers/completions.js';
+import { WorkspaceManager } from '../engines/WorkspaceManager.js';
+import { IndexNotReadyError, ServerConfig } from '../types.js';
+import { MemoryCache } from '../utils/cache.js';
+import { ParsePool } from '../utils/parsePool.js';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+describe('CompletionHandler', () => {
+  let repoPath: string;
+  let workspaces: WorkspaceManager;
+  let handler: CompletionHandler;
+
+  beforeEach(async () => {
+    repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'foundation-completions-'));
+    await fs.mkdir(path.join(repoPath, 'js'), { recursive: true });
+    await fs.mkdir(path.join(repoPath, 'scss/components'), { recursive: true });
+    for (const [file, name] of [['tabs', 'Tabs'], ['toggler', 'Toggler'], ['dropdown', 'Dropdown']]) {
+      await fs.writeFile(
+        path.join(repoPath, `js/foundation.${file}.js`),
+        `class ${name} extends Plugin { _init() {} _destroy() {} }\n`
+      );
+    }
+    for (const component of ['badge', 'button', 'button-group']) {
+      await fs.writeFile(path.join(repoPath, `scss/components/_${component}.scss`), `@mixin ${component}-base {}\n`);
+    }
+    await fs.writeFile(
+      path.join(repoPath, 'package.json'),
+      JSON.stringify({ name: 'foundation-sites', version: '6.9.0' })
+    );
+
+    const config: ServerConfig = {
+      transport: 'stdio',
+      host: '127.0.0.1',
+      port: 8000,
+      logLevel: 'error',
+      foundationRepoPath: repoPath,
+      workspaces: [],
+      extensions: [],
+      toolDefaults: {},
+      cache: { ttl: 3600, backend: 'memory', maxSize: 1000 },
+      performance: { maxConcurrentOperations: 2, indexWaitMs: 1000, parseWorkers: 0, workerMinInputBytes: 0 },
+      security: { enableRateLimiting: false, rateLimitPerMinute: 60, expensiveRateLimitPerMinute: 10 },
+      watch: { enabled: false, debounceMs: 250 },
+      snapshot: { enabled: false, directory: repoPath },
+      audit: { enabled: false, path: 'audit.jsonl', maxBytes: 1024 * 1024, maxFiles: 1, redactArguments: [], crossSessionQueries: false },
+    };
+    workspaces = new WorkspaceManager(config, new MemoryCache(1000, 3600), new ParsePool(config.performance));
+    handler = new CompletionHandler(workspaces);
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoPath, { recursive: true, force: true });
+  });
+
+  describe('CompletionRequestSchema', () => {
+    const request = (ref: object) => ({
+      method: 'completion/complete',
+      params: { ref, argument: { name: 'slug', value: '' } },
+    });
+
+    it('should accept prompt, resource and tool references', () => {
+      expect(CompletionRequestSchema.safeParse(request({ type: 'ref/prompt', name: 'scaffold_plugin' })).success).toBe(true);
+      expect(CompletionRequestSchema.safeParse(
+        request({ type: 'ref/resource', uri: 'foundation://plugins/{slug}/docs' })
+      ).success).toBe(true);
+      expect(CompletionRequestSchema.safeParse(request({ type: 'ref/tool', name: 'get_plugin_reference' })).success).toBe(true);
+    });
+
+    it('should reject other reference types', () => {
+      expect(CompletionRequestSchema.safeParse(request({ type: 'ref/unknown', name: 'x' })).success).toBe(false);
+      expect(CompletionRequestSchema.safeParse(request({ type: 'ref/tool' })).success).toBe(false);
+    });
+  });
+
+  describe('complete', () => {
+    it('should complete resource template slugs from the index', async () => {
+      const result = await handler.complete(
+        { type: 'ref/resource', uri: 'foundation://components/{slug}/docs' },
+        { name: 'slug', value: 'b' }
+      );
+
+      expect(result.completion).toEqual({ values: ['badge', 'button', 'button-group'], total: 3, hasMore: false });
+    });
+
+    it('should complete prompt arguments with plugin slugs', async () => {
+      const result = await handler.complete(
+        { type: 'ref/prompt', name: 'scaffold_plugin' },
+        { name: 'basedOn', value: 't' }
+      );
+
+      expect(result.completion.values).toEqual(['tabs', 'toggler']);
+    });
+
+    it('should complete tool arguments through tool references', async () => {
+      const plugins = await handler.complete(
+        { type: 'ref/tool', name: 'get_plugin_reference' },
+        { name: 'slug', value: 'drop' }
+      );
+      const targets = await handler.complete(
+        { type: 'ref/tool', name: 'refactor_to_foundation' },
+        { name: 'foundationTarget', value: '' }
+      );
+
+      expect(plugins.completion.values).toEqual(['dropdown']);
+      expect(targets.completion.values).toEqual(['badge', 'button', 'button-group', 'dropdown', 'tabs', 'toggler']);
+    });
+
+    it('should list prefix matches before substring matches', async () => {
+      const result = await handler.complete(
+        { type: 'ref/tool', name: 'refactor_to_foundation' },
+        { name: 'foundationTarget', value: 'T' }
+      );
+
+      expect(result.completion.values).toEqual(['tabs', 'toggler', 'button', 'button-group']);
+    });
+
+    it('should complete versions for prompts and tools', async () => {
+      const result = await handler.complete(
+        { type: 'ref/tool', name: 'get_plugin_reference' },
+        { name: 'version', value: '6' }
+      );
+
+      expect(result.completion.values).toEqual(['6.9.0']);
+    });
+
+    it('should return no values while the index is warming up', async () => {
+      jest.spyOn(workspaces, 'waitForIndex').mockRejectedValue(new IndexNotReadyError('warming up'));
+
+      const result = await handler.complete(
+        { type: 'ref/tool', name: 'get_plugin_reference' },
+        { name: 'slug', value: 't' }
+      );
+
+      expect(result.completion).toEqual({ values: [], total: 0, hasMore: false });
+    });
+
+    it('should return no values for arguments without a source', async () => {
+      const result = await handler.complete(
+        { type: 'ref/tool', name: 'generate_plugin' },
+        { name: 'name', value: 'a' }
+      );
+
+      expect(result.completion).toEqual({ values: [], total: 0, hasMore: false });
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for config file loading and merging
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { configFromEnv, findConfigFile, mergeConfig, readConfigFile } from '../utils/configLoader.js';
+import { ValidationError } from '../types.js';
+
+describe('configLoader', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'foundation-config-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should map environment variables onto config fields', () => {
+    const config = configFromEnv({
+      MCP_PORT: '9000',
+      CACHE_BACKEND: 'redis',
+      ENABLE_RATE_LIMITING: 'true',
+      FOUNDATION_WORKSPACES: '6.4=/srv/f64, /srv/f69',
+      MCP_LOG_LEVEL: '',
+    });
+
+    expect(config).toEqual({
+      port: 9000,
+      cache: { backend: 'redis' },
+      security: { enableRateLimiting: true },
+      workspaces: [{ version: '6.4', path: '/srv/f64' }, { path: '/srv/f69' }],
+    });
+  });
+
+  it('should keep unconvertible values so validation reports them', () => {
+    expect(configFromEnv({ MCP_PORT: 'abc', WATCH_FOUNDATION_REPO: 'yes' })).toEqual({
+      port: 'abc',
+      watch: { enabled: 'yes' },
+    });
+  });
+
+  it('should merge layers with later layers winning', () => {
+    const merged = mergeConfig(
+      { port: 8000, cache: { ttl: 60, backend: 'memory' }, extensions: ['a'] },
+      { cache: { ttl: 120 }, extensions: ['b'] },
+      { port: 9000, cache: { backend: undefined } }
+    );
+
+    expect(merged).toEqual({ port: 9000, cache: { ttl: 120, backend: 'memory' }, extensions: ['b'] });
+  });
+
+  it('should read tool defaults and resolve paths against the config file', async () => {
+    await fs.writeFile(path.join(root, 'foundation-mcp.config.json'), JSON.stringify({
+      foundationRepoPath: '../foundation-sites',
+      extensions: ['./extensions/acme.js', '@acme/extension'],
+      tools: { generate_component: { grid: 'float-grid' } },
+    }));
+
+    const file = await findConfigFile(root);
+    expect(file).toBe(path.join(root, 'foundation-mcp.config.json'));
+
+    const config = await readConfigFile(file!);
+    expect(config.foundationRepoPath).toBe(path.resolve(root, '../foundation-sites'));
+    expect(config.extensions).toEqual([path.join(root, 'extensions/acme.js'), '@acme/extension']);
+    expect(config.toolDefaults).toEqual({ generate_component: { grid: 'float-grid' } });
+  });
+
+  it('should reject unknown and invalid settings', async () => {
+    const file = path.join(root, 'foundation-mcp.config.json');
+    await fs.writeFile(file, JSON.stringify({ logLevl: 'debug', cache: { backend: 'disk' } }));
+
+    await expect(readConfigFile(file)).rejects.toThrow(ValidationError);
+    await expect(readConfigFile(file)).rejects.toThrow(/logLevl/);
+  });
+
+  it('should discover TypeScript config files after the JavaScript ones', async () => {
+    await fs.writeFile(path.join(root, 'foundation-mcp.config.ts'), 'export default { logLevel: "debug" };\n');
+    expect(await findConfigFile(root)).toBe(path.join(root, 'foundation-mcp.config.ts'));
+
+    await fs.writeFile(path.join(root, 'foundation-mcp.config.js'), 'export default { logLevel: "debug" };\n');
+    expect(await findConfigFile(root)).toBe(path.join(root, 'foundation-mcp.config.js'));
+  });
+
+  it('should reject other config file extensions', async () => {
+    const file = path.join(root, 'foundation-mcp.config.yaml');
+    await fs.writeFile(file, 'logLevel: debug\n');
+
+    await expect(readConfigFile(file)).rejects.toThrow(/must be \.json, \.mjs, \.js or \.ts/);
+  });
+});
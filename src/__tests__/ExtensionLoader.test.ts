@@ -0,0 +1,124 @@
+/**
+ * Tests for ExtensionLoader
+ */
+
+import { z } from 'zod';
+import { defineExtension, ExtensionHost, ExtensionLoader } from '../extensions/index.js';
+import { PluginAnalyzer } from '../engines/PluginAnalyzer.js';
+import { PluginGenerator } from '../generators/PluginGenerator.js';
+import { ComponentGenerator } from '../generators/ComponentGenerator.js';
+import { ResourceDefinition } from '../handlers/resources.js';
+import { createToolRegistry } from '../tools/index.js';
+import { ExtensionError, ServerConfig } from '../types.js';
+import { MemoryCache } from '../utils/cache.js';
+
+describe('ExtensionLoader', () => {
+  let host: ExtensionHost;
+  let resources: ResourceDefinition[];
+
+  beforeEach(() => {
+    resources = [];
+    host = {
+      config: { extensions: [] } as unknown as ServerConfig,
+      cache: new MemoryCache(100, 60),
+      workspaces: {} as ExtensionHost['workspaces'],
+      tools: createToolRegistry(),
+      resources: {
+        registerResource: (resource: ResourceDefinition) => resources.push(resource),
+      } as unknown as ExtensionHost['resources'],
+      pluginAnalyzer: new PluginAnalyzer(),
+      pluginGenerator: new PluginGenerator(),
+      componentGenerator: new ComponentGenerator(),
+    };
+  });
+
+  const acme = defineExtension({
+    name: 'acme',
+    setup(api) {
+      api.registerTool({
+        name: 'acme_conventions',
+        description: 'House conventions',
+        schema: z.object({}),
+        outputSchema: z.object({ prefix: z.string() }),
+        async handler() {
+          return { prefix: 'Acme' };
+        },
+      });
+      api.registerResource({
+        uri: 'foundation://acme/{topic}',
+        name: 'Acme',
+        description: 'House conventions',
+        mimeType: 'text/plain',
+        async read(params) {
+          return params.topic;
+        },
+      });
+      api.registerAnalyzerRule({
+        id: 'acme-prefix',
+        patternTypes: ['plugin'],
+        check: (_code, parsed) => parsed && !parsed.className.startsWith('Acme')
+          ? [{ severity: 'error', message: 'Prefix plugin classes with Acme' }]
+          : [],
+      });
+      api.registerPluginTemplate({
+        name: 'acme',
+        description: 'Adds the Acme license header',
+        render: (_params, files) => ({
+          ...files,
+          plugin: files.plugin && { ...files.plugin, content: `// Acme\n${files.plugin.content}` },
+        }),
+        integrationSteps: ['Register the plugin in acme-ui'],
+      });
+    },
+  });
+
+  it('should record what an extension registers', async () => {
+    const loaded = await new ExtensionLoader(host).install(acme);
+
+    expect(loaded).toEqual({
+      name: 'acme',
+      source: 'acme',
+      tools: ['acme_conventions'],
+      resources: ['foundation://acme/{topic}'],
+      analyzerRules: ['acme-prefix'],
+      templates: ['plugin:acme'],
+    });
+    expect(host.tools.get('acme_conventions')).toBeDefined();
+    expect(resources).toHaveLength(1);
+  });
+
+  it('should apply analyzer rules and generator templates', async () => {
+    await new ExtensionLoader(host).install(acme);
+
+    const analysis = await host.pluginAnalyzer.analyzePattern({
+      code: 'export class Tabs extends Plugin { _init() {} _destroy() {} }',
+      patternType: 'plugin',
+    });
+    expect(analysis.issues.map(issue => issue.message)).toContain('Prefix plugin classes with Acme');
+    expect(analysis.matches).not.toBe('matches');
+
+    const generated = await host.pluginGenerator.generate({
+      name: 'AcmeTabs',
+      slug: 'acme-tabs',
+      description: 'Tabs',
+      includeTests: false,
+      includeDocs: false,
+      template: 'acme',
+    });
+    expect(generated.files.plugin?.content.startsWith('// Acme\n')).toBe(true);
+    expect(generated.integrationSteps).toContain('Register the plugin in acme-ui');
+  });
+
+  it('should reject an extension whose setup fails', async () => {
+    const loader = new ExtensionLoader(host);
+    const broken = defineExtension({
+      name: 'broken',
+      setup(api) {
+        api.registerTool(host.tools.get('get_plugin_reference')!);
+      },
+    });
+
+    await expect(loader.install(broken)).rejects.toThrow(ExtensionError);
+    expect(loader.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for HttpTransportServer
+ */
+
+import net from 'net';
+import path from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { JSONRPCMessage, LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportServer, SessionServerFactory } from '../transports/http.js';
+import { ValidationError } from '../types.js';
+import { PathSandbox } from '../utils/pathSandbox.js';
+
+/**
+ * Port nothing is listening on
+ */
+async function freePort(): Promise<number> {
+  const probe = net.createServer();
+  await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address() as net.AddressInfo;
+  await new Promise<void>(resolve => probe.close(() => resolve()));
+  return port;
+}
+
+describe('HttpTransportServer', () => {
+  let baseUrl: string;
+  let sessionIds: string[];
+  let transport: HttpTransportServer;
+  let streams: AbortController[];
+  // Remote clients must not widen file access with their roots
+  const workspaceRoot = path.resolve('src');
+  const sandbox = new PathSandbox([workspaceRoot], false);
+
+  const createSessionServer: SessionServerFactory = (sessionId) => {
+    sessionIds.push(sessionId);
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+    server.oninitialized = () => sandbox.refreshClientRoots(server, sessionId);
+    return server;
+  };
+
+  /**
+   * Open an SSE stream and return the session id from its endpoint event,
+   * with a reader for the messages that follow
+   */
+  const openSession = async (): Promise<{
+    sessionId: string;
+    stream: AbortController;
+    nextMessage: () => Promise<JSONRPCMessage>;
+  }> => {
+    const stream = new AbortController();
+    streams.push(stream);
+    const response = await fetch(`${baseUrl}/sse`, { signal: stream.signal });
+    const reader = response.body!.getReader();
+    let text = '';
+    const nextEvent = async (): Promise<string> => {
+      while (!text.includes('\n\n')) {
+        const { value } = await reader.read();
+        text += Buffer.from(value!).toString('utf-8');
+      }
+      const end = text.indexOf('\n\n');
+      const event = text.slice(0, end);
+      text = text.slice(end + 2);
+      return event;
+    };
+    const sessionId = /sessionId=([\w-]+)/.exec(await nextEvent())![1];
+    const nextMessage = async () => JSON.parse(/^data: (.*)$/m.exec(await nextEvent())![1]) as JSONRPCMessage;
+    return { sessionId, stream, nextMessage };
+  };
+
+  const waitFor = async (condition: () => boolean): Promise<void> => {
+    for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  beforeEach(async () => {
+    sessionIds = [];
+    streams = [];
+    const port = await freePort();
+    baseUrl = `http://127.0.0.1:${port}`;
+    transport = new HttpTransportServer('127.0.0.1', port, createSessionServer, () => ({ version: '6.8.1' }));
+    await transport.listen();
+  });
+
+  afterEach(async () => {
+    streams.forEach(stream => stream.abort());
+    await transport.close();
+  });
+
+  it('should create one MCP server per session', async () => {
+    const first = await openSession();
+    const second = await openSession();
+
+    expect(first.sessionId).not.toBe(second.sessionId);
+    expect(sessionIds).toEqual([first.sessionId, second.sessionId]);
+    expect(transport.sessionCount).toBe(2);
+  });
+
+  it('should route messages to their session and reject unknown sessions with 404', async () => {
+    const { sessionId } = await openSession();
+    const post = (query: string) => fetch(`${baseUrl}/messages${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+    });
+
+    expect((await post(`?sessionId=${sessionId}`)).status).toBe(202);
+
+    const unknown = await post('?sessionId=missing-session');
+    expect(unknown.status).toBe(404);
+    expect(await unknown.json()).toEqual({ error: 'Unknown session: missing-session' });
+    expect((await post('')).status).toBe(404);
+  });
+
+  it('should remove a session when its client disconnects', async () => {
+    const first = await openSession();
+    await openSession();
+
+    first.stream.abort();
+    await waitFor(() => transport.sessionCount === 1);
+
+    expect(transport.sessionCount).toBe(1);
+  });
+
+  it('should ignore roots declared by HTTP clients', async () => {
+    const { sessionId, nextMessage } = await openSession();
+    const send = (message: object) => fetch(`${baseUrl}/messages?sessionId=${sessionId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', ...message }),
+    });
+
+    await send({
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: { roots: { listChanged: true } },
+        clientInfo: { name: 'hostile', version: '1.0.0' },
+      },
+    });
+    expect(await nextMessage()).toHaveProperty('id', 1);
+    await send({ method: 'notifications/initialized' });
+    await send({ id: 2, method: 'ping' });
+
+    // Answer a roots request, should one come, with the whole file system
+    let rootsRequested = false;
+    for (let message = await nextMessage(); !('id' in message && message.id === 2); message = await nextMessage()) {
+      if ('method' in message && message.method === 'roots/list' && 'id' in message) {
+        rootsRequested = true;
+        await send({ id: message.id, result: { roots: [{ uri: 'file:///' }] } });
+      }
+    }
+
+    expect(rootsRequested).toBe(false);
+    expect(await sandbox.roots(sessionId)).toEqual([workspaceRoot]);
+    await expect(sandbox.resolve(sessionId, path.resolve('package.json'))).rejects.toThrow(ValidationError);
+  });
+
+  it('should report the session count and extra status on /health', async () => {
+    await openSession();
+
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 1, version: '6.8.1' });
+  });
+
+  it('should answer unknown paths with 404', async () => {
+    expect((await fetch(`${baseUrl}/nope`)).status).toBe(404);
+  });
+});
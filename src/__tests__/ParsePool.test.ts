@@ -0,0 +1,92 @@
+/**
+ * Tests for ParsePool
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ParsePool } from '../utils/parsePool.js';
+import { CancelledError, ParseError } from '../types.js';
+
+const PLUGIN = 'export class Tabs extends Plugin { _init() {} _destroy() {} }';
+
+// Stands in for the compiled parseWorker.js, which jest cannot load from source
+const ECHO_WORKER = `
+const { parentPort } = require('worker_threads');
+parentPort.on('message', ({ kind, code }) => {
+  if (code === 'hang') return;
+  if (code === 'broken') return parentPort.postMessage({ error: 'Failed to parse JavaScript plugin: broken' });
+  parentPort.postMessage({ result: { className: kind + ':' + code, methods: [], properties: [], events: [], extendsClass: null, imports: [], exports: [] } });
+});
+parentPort.postMessage('ready');
+`;
+
+describe('ParsePool', () => {
+  let root: string;
+  let pool: ParsePool;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'foundation-parse-pool-'));
+  });
+
+  afterEach(async () => {
+    await pool?.close();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const config = { maxConcurrentOperations: 2, parseWorkers: 2, workerMinInputBytes: 1024 };
+
+  const writeWorker = async (source: string): Promise<string> => {
+    const script = path.join(root, 'worker.cjs');
+    await fs.writeFile(script, source);
+    return script;
+  };
+
+  it('should parse on the main thread without a worker script', async () => {
+    pool = new ParsePool(config);
+
+    const parsed = await pool.parsePlugin(PLUGIN);
+    expect(parsed.className).toBe('Tabs');
+    expect(parsed.methods).toEqual(['_init', '_destroy']);
+    expect(pool.stats()).toMatchObject({ name: 'parse', maxConcurrent: 2, workers: 0 });
+  });
+
+  it('should run jobs on at most parseWorkers threads', async () => {
+    pool = new ParsePool(config, await writeWorker(ECHO_WORKER));
+
+    const results = await Promise.all(['a', 'b', 'c', 'd'].map(code => pool.parsePlugin(code)));
+    expect(results.map(result => result.className)).toEqual(['plugin:a', 'plugin:b', 'plugin:c', 'plugin:d']);
+    expect(pool.stats()).toMatchObject({ maxConcurrent: 2, workers: 2, completed: 4 });
+
+    await expect(pool.parsePlugin('broken')).rejects.toThrow(ParseError);
+  });
+
+  it('should keep small analyzer inputs on the main thread', async () => {
+    pool = new ParsePool(config, await writeWorker(ECHO_WORKER));
+
+    expect((await pool.parsePlugin(PLUGIN, { largeInputsOnly: true })).className).toBe('Tabs');
+    expect(pool.stats().workers).toBe(0);
+    expect((await pool.parsePlugin(PLUGIN)).className).toBe(`plugin:${PLUGIN}`);
+  });
+
+  it('should replace a worker whose parse is cancelled', async () => {
+    pool = new ParsePool(config, await writeWorker(ECHO_WORKER));
+    const controller = new AbortController();
+
+    const hanging = pool.parsePlugin('hang', { signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    controller.abort();
+
+    await expect(hanging).rejects.toThrow(CancelledError);
+    expect(pool.stats().workers).toBe(0);
+    expect((await pool.parsePlugin('after')).className).toBe('plugin:after');
+  });
+
+  it('should fall back to the main thread when the worker cannot load', async () => {
+    pool = new ParsePool(config, await writeWorker('throw new Error("cannot load");'));
+
+    expect((await pool.parsePlugin(PLUGIN)).className).toBe('Tabs');
+    expect((await pool.parsePlugin(PLUGIN)).className).toBe('Tabs');
+    expect(pool.stats().workers).toBe(0);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for PathSandbox
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { PathSandbox, rootUriToPath } from '../utils/pathSandbox.js';
+import { readSourceInput } from '../tools/registry.js';
+import { NotFoundError, ValidationError } from '../types.js';
+
+describe('PathSandbox', () => {
+  let root: string;
+  let repo: string;
+  let project: string;
+  let outside: string;
+
+  beforeEach(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'foundation-sandbox-')));
+    repo = path.join(root, 'foundation-sites');
+    project = path.join(root, 'project');
+    outside = path.join(root, 'outside');
+    await Promise.all([repo, project, outside].map(dir => fs.mkdir(dir)));
+    await fs.writeFile(path.join(repo, 'plugin.js'), 'class Repo {}');
+    await fs.writeFile(path.join(project, 'tabs.js'), 'class Tabs {}');
+    await fs.writeFile(path.join(outside, 'secret.txt'), 'secret');
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should read files inside configured roots and client roots within them', async () => {
+    const sandbox = new PathSandbox([repo, project]);
+    sandbox.setSessionRoots('session', Promise.resolve([project]));
+    const files = sandbox.forSession('session');
+
+    expect(await files.readFile('tabs.js')).toBe('class Tabs {}');
+    expect(await files.readFile(path.join(repo, 'plugin.js'))).toBe('class Repo {}');
+    expect(await files.roots()).toEqual([project, repo]);
+  });
+
+  it('should narrow client roots to the configured roots', async () => {
+    const sandbox = new PathSandbox([repo]);
+    await fs.mkdir(path.join(repo, 'js'));
+    await fs.symlink(outside, path.join(repo, 'escape'));
+    sandbox.setSessionRoots('session', [path.parse(root).root, project, path.join(repo, 'js'), path.join(repo, 'escape')]);
+
+    expect(await sandbox.roots('session')).toEqual([repo, path.join(repo, 'js')]);
+    await expect(sandbox.readFile('session', path.join(outside, 'secret.txt'))).rejects.toThrow(ValidationError);
+    await expect(sandbox.readFile('session', path.join(project, 'tabs.js'))).rejects.toThrow(ValidationError);
+  });
+
+  it('should take trusted roots as given', async () => {
+    const sandbox = new PathSandbox([repo]);
+    sandbox.setTrustedRoots('local', [outside]);
+
+    expect(await sandbox.readFile('local', 'secret.txt')).toBe('secret');
+  });
+
+  it('should allow names inside a root that start with two dots', async () => {
+    await fs.writeFile(path.join(repo, '..plugin.js'), 'class Dots {}');
+
+    expect(await new PathSandbox([repo]).readFile('session', '..plugin.js')).toBe('class Dots {}');
+  });
+
+  it('should reject paths outside the roots, including through symlinks', async () => {
+    const sandbox = new PathSandbox([repo]);
+    await fs.symlink(outside, path.join(repo, 'escape'));
+
+    await expect(sandbox.readFile('other', path.join(outside, 'secret.txt'))).rejects.toThrow(ValidationError);
+    await expect(sandbox.readFile('other', '../outside/secret.txt')).rejects.toThrow(ValidationError);
+    await expect(sandbox.readFile('other', 'escape/secret.txt')).rejects.toThrow(/outside the workspace roots/);
+    // The roots are only logged, never sent to the client
+    await expect(sandbox.readFile('other', '../outside/secret.txt'))
+      .rejects.toHaveProperty('details', { path: '../outside/secret.txt' });
+    await expect(sandbox.readFile('other', 'missing.js')).rejects.toThrow(NotFoundError);
+  });
+
+  it('should drop client roots when the session ends', async () => {
+    const sandbox = new PathSandbox([root]);
+    sandbox.setSessionRoots('session', [project]);
+    sandbox.removeSession('session');
+
+    expect(await sandbox.roots('session')).toEqual([root]);
+  });
+
+  it('should only map file URIs to root paths', () => {
+    expect(rootUriToPath(pathToFileURL(project).href)).toBe(project);
+    expect(rootUriToPath('https://example.com/repo')).toBeUndefined();
+  });
+
+  it('should take exactly one of code and path from tool arguments', async () => {
+    const files = new PathSandbox([repo]).forSession('session');
+
+    expect(await readSourceInput({ code: 'class A {}' }, files)).toBe('class A {}');
+    expect(await readSourceInput({ path: 'plugin.js' }, files)).toBe('class Repo {}');
+    await expect(readSourceInput({}, files)).rejects.toThrow(ValidationError);
+    await expect(readSourceInput({ code: 'x', path: 'plugin.js' }, files)).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for PromptHandler
+ */
+
+import { PromptHandler } from '../handlers/prompts.js';
+import { WorkspaceManager } from '../engines/WorkspaceManager.js';
+import { NotFoundError, ServerConfig, ValidationError } from '../types.js';
+import { MemoryCache } from '../utils/cache.js';
+import { ParsePool } from '../utils/parsePool.js';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+describe('PromptHandler', () => {
+  let repoPath: string;
+  let handler: PromptHandler;
+
+  beforeEach(async () => {
+    repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'foundation-prompts-'));
+    await fs.mkdir(path.join(repoPath, 'js'), { recursive: true });
+    await fs.mkdir(path.join(repoPath, 'scss/components'), { recursive: true });
+    await fs.writeFile(
+      path.join(repoPath, 'js/foundation.tabs.js'),
+      'class Tabs extends Plugin { _setup() {} _init() {} _destroy() {} }\n'
+    );
+    await fs.writeFile(path.join(repoPath, 'scss/components/_badge.scss'), '@mixin badge-base {}\n');
+
+    const config: ServerConfig = {
+      transport: 'stdio',
+      host: '127.0.0.1',
+      port: 8000,
+      logLevel: 'error',
+      foundationRepoPath: repoPath,
+      workspaces: [],
+      extensions: [],
+      toolDefaults: {},
+      cache: { ttl: 3600, backend: 'memory', maxSize: 1000 },
+      performance: { maxConcurrentOperations: 2, indexWaitMs: 1000, parseWorkers: 0, workerMinInputBytes: 0 },
+      security: { enableRateLimiting: false, rateLimitPerMinute: 60, expensiveRateLimitPerMinute: 10 },
+      watch: { enabled: false, debounceMs: 250 },
+      snapshot: { enabled: false, directory: repoPath },
+      audit: { enabled: false, path: 'audit.jsonl', maxBytes: 1024 * 1024, maxFiles: 1, redactArguments: [], crossSessionQueries: false },
+    };
+    const workspaces = new WorkspaceManager(config, new MemoryCache(1000, 3600), new ParsePool(config.performance));
+    handler = new PromptHandler(workspaces);
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoPath, { recursive: true, force: true });
+  });
+
+  describe('listPrompts', () => {
+    it('should list every prompt with its arguments', async () => {
+      const { prompts } = await handler.listPrompts();
+
+      expect(prompts.map(prompt => prompt.name)).toEqual([
+        'scaffold_plugin',
+        'migrate_bootstrap_component',
+        'audit_plugin_accessibility',
+        'add_sass_component',
+      ]);
+      for (const prompt of prompts) {
+        expect(prompt.arguments.some(argument => argument.required)).toBe(true);
+        expect(prompt.arguments.find(argument => argument.name === 'version')?.required).toBe(false);
+      }
+    });
+  });
+
+  describe('getPrompt', () => {
+    it('should render a prompt with data from the index', async () => {
+      const result = await handler.getPrompt('scaffold_plugin', {
+        name: 'MyTabs',
+        description: 'Tabs that remember the open panel',
+        basedOn: 'tabs',
+      });
+
+      expect(result.messages).toHaveLength(1);
+      expect(result.messages[0].role).toBe('user');
+      expect(result.messages[0].content.text).toContain('`MyTabs` (slug `my-tabs`)');
+      expect(result.messages[0].content.text).toContain('Model it on the existing Tabs plugin');
+    });
+
+    it('should reject a missing or blank required argument', async () => {
+      await expect(handler.getPrompt('scaffold_plugin', { name: 'MyTabs' }))
+        .rejects.toThrow(new ValidationError('Missing required prompt argument: description'));
+      await expect(handler.getPrompt('migrate_bootstrap_component', { component: '  ' }))
+        .rejects.toBeInstanceOf(ValidationError);
+      await expect(handler.getPrompt('add_sass_component'))
+        .rejects.toThrow('Missing required prompt argument: name');
+    });
+
+    it('should reject invalid argument values', async () => {
+      await expect(handler.getPrompt('add_sass_component', { name: 'Alert', grid: 'flex-grid' }))
+        .rejects.toBeInstanceOf(ValidationError);
+      await expect(handler.getPrompt('audit_plugin_accessibility', { slug: 'missing' }))
+        .rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should reject unknown prompts and versions', async () => {
+      await expect(handler.getPrompt('unknown_prompt')).rejects.toBeInstanceOf(NotFoundError);
+      await expect(handler.getPrompt('add_sass_component', { name: 'Alert', version: '5' }))
+        .rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for RateLimiter
+ */
+
+import { RateLimiter } from '../utils/rateLimiter.js';
+
+describe('RateLimiter', () => {
+  let now: number;
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    now = 0;
+    limiter = new RateLimiter(
+      {
+        enableRateLimiting: true,
+        rateLimitPerMinute: 3,
+        expensiveRateLimitPerMinute: 1,
+      },
+      () => now
+    );
+  });
+
+  describe('checkTool', () => {
+    it('should allow calls within the budget', () => {
+      for (let i = 0; i < 3; i++) {
+        expect(limiter.checkTool('client-a', 'generate_plugin').allowed).toBe(true);
+      }
+    });
+
+    it('should throttle calls over the budget with a retry-after hint', () => {
+      for (let i = 0; i < 3; i++) {
+        limiter.checkTool('client-a', 'generate_plugin');
+      }
+
+      const decision = limiter.checkTool('client-a', 'generate_plugin');
+      expect(decision.allowed).toBe(false);
+      expect(decision.bucket).toBe('default');
+      expect(decision.retryAfterMs).toBe(20_000);
+    });
+
+    it('should refill tokens over time', () => {
+      for (let i = 0; i < 3; i++) {
+        limiter.checkTool('client-a', 'generate_plugin');
+      }
+
+      now = 20_000;
+      expect(limiter.checkTool('client-a', 'generate_plugin').allowed).toBe(true);
+    });
+
+    it('should keep separate budgets per client', () => {
+      for (let i = 0; i < 3; i++) {
+        limiter.checkTool('client-a', 'generate_plugin');
+      }
+
+      expect(limiter.checkTool('client-b', 'generate_plugin').allowed).toBe(true);
+    });
+
+    it('should charge expensive tools against their own budget', () => {
+      expect(limiter.checkTool('client-a', 'refactor_to_foundation').allowed).toBe(true);
+
+      const decision = limiter.checkTool('client-a', 'refactor_to_foundation');
+      expect(decision.allowed).toBe(false);
+      expect(decision.bucket).toBe('expensive');
+
+      expect(limiter.checkTool('client-a', 'generate_plugin').allowed).toBe(true);
+    });
+  });
+
+  describe('when disabled', () => {
+    it('should allow every call', () => {
+      limiter = new RateLimiter({
+        enableRateLimiting: false,
+        rateLimitPerMinute: 1,
+        expensiveRateLimitPerMinute: 1,
+      });
+
+      for (let i = 0; i < 5; i++) {
+        expect(limiter.checkResource('client-a').allowed).toBe(true);
+      }
+    });
+  });
+});
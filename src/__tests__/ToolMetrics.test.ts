@@ -0,0 +1,53 @@
+/**
+ * Tests for ToolMetrics
+ */
+
+import { ToolMetrics, percentile } from '../utils/metrics.js';
+
+describe('ToolMetrics', () => {
+  it('should count calls per outcome', () => {
+    const metrics = new ToolMetrics();
+
+    metrics.record('validate_plugin', 10, 'success');
+    metrics.record('validate_plugin', 20, 'error');
+    metrics.record('validate_plugin', 0, 'rate_limited');
+
+    const [stats] = metrics.snapshot();
+    expect(stats.tool).toBe('validate_plugin');
+    expect(stats.calls).toBe(3);
+    expect(stats.outcomes).toEqual({ success: 1, error: 1, cancelled: 0, rate_limited: 1 });
+  });
+
+  it('should report p50 and p95 latency of calls that ran', () => {
+    const metrics = new ToolMetrics();
+
+    for (let duration = 1; duration <= 100; duration++) {
+      metrics.record('refactor_to_foundation', duration, 'success');
+    }
+    metrics.record('refactor_to_foundation', 0, 'rate_limited');
+
+    const [stats] = metrics.snapshot();
+    expect(stats.p50Ms).toBe(50);
+    expect(stats.p95Ms).toBe(95);
+  });
+
+  it('should sort tools by name', () => {
+    const metrics = new ToolMetrics();
+
+    metrics.record('query_architecture', 1, 'success');
+    metrics.record('analyze_pattern', 1, 'success');
+
+    expect(metrics.snapshot().map(s => s.tool)).toEqual(['analyze_pattern', 'query_architecture']);
+  });
+});
+
+describe('percentile', () => {
+  it('should return null without samples', () => {
+    expect(percentile([], 0.5)).toBeNull();
+  });
+
+  it('should use the nearest rank', () => {
+    expect(percentile([5], 0.95)).toBe(5);
+    expect(percentile([1, 2, 3, 4], 0.5)).toBe(2);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Tests for the declarative tool registry
+ */
+
+import { z } from 'zod';
+import { BUILTIN_TOOLS, createToolRegistry, defineTool, DEFAULT_TOOL_PRIORITY, ToolRegistry } from '../tools/index.js';
+import { ValidationError } from '../types.js';
+
+describe('ToolRegistry', () => {
+  it('should derive input schemas from the zod schemas', () => {
+    const listings = new Map(createToolRegistry().describe().map(tool => [tool.name, tool]));
+
+    const analyze = listings.get('analyze_pattern')!.inputSchema;
+    expect(analyze.properties?.patternType.enum).toEqual(['plugin', 'component', 'utility', 'test']);
+    expect(analyze.required).toEqual(['patternType']);
+    expect(Object.keys(analyze.properties ?? {})).toEqual(expect.arrayContaining(['code', 'path']));
+
+    const component = listings.get('generate_component')!.inputSchema;
+    expect(component.properties?.variables.type).toBe('object');
+    expect(component.properties?.grid.default).toBe('xy-grid');
+
+    const reference = listings.get('get_plugin_reference')!.inputSchema;
+    expect(reference.required).toEqual(['slug']);
+    expect(reference.properties?.version.type).toBe('string');
+  });
+
+  it('should publish an output schema for every built-in tool', () => {
+    for (const tool of createToolRegistry().describe()) {
+      expect(tool.outputSchema.type).toBe('object');
+      expect(Object.keys(tool.outputSchema.properties ?? {}).length).toBeGreaterThan(0);
+    }
+  });
+
+  it('should reject duplicate tool names', () => {
+    const registry = new ToolRegistry(BUILTIN_TOOLS);
+
+    expect(() => registry.register(BUILTIN_TOOLS[0])).toThrow(ValidationError);
+  });
+
+  it('should fall back to the default priority', () => {
+    const registry = createToolRegistry();
+    registry.register(defineTool({
+      name: 'echo',
+      description: 'Echo the message',
+      schema: z.object({ message: z.string() }),
+      outputSchema: z.object({ message: z.string() }),
+      async handler(params) {
+        return params;
+      },
+    }));
+
+    expect(registry.priorityOf('get_plugin_reference')).toBe(10);
+    expect(registry.priorityOf('echo')).toBe(DEFAULT_TOOL_PRIORITY);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for WorkScheduler
+ */
+
+import { WorkScheduler } from '../utils/scheduler.js';
+import { CancelledError } from '../types.js';
+
+/**
+ * Job that resolves only when released
+ */
+function deferredJob<T>(value: T) {
+  let release!: () => void;
+  const started = jest.fn();
+  const job = () => {
+    started();
+    return new Promise<T>((resolve) => {
+      release = () => resolve(value);
+    });
+  };
+  return { job, started, release: () => release() };
+}
+
+/**
+ * Let pending promise callbacks run
+ */
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('WorkScheduler', () => {
+  it('should cap the number of concurrently running jobs', async () => {
+    const scheduler = new WorkScheduler('test', 2);
+    const jobs = [deferredJob(1), deferredJob(2), deferredJob(3)];
+
+    const results = jobs.map(({ job }) => scheduler.run(job));
+    await flush();
+
+    expect(scheduler.stats()).toMatchObject({ active: 2, queued: 1 });
+    expect(jobs[2].started).not.toHaveBeenCalled();
+
+    jobs[0].release();
+    await results[0];
+    await flush();
+
+    expect(jobs[2].started).toHaveBeenCalled();
+
+    jobs[1].release();
+    jobs[2].release();
+    await expect(Promise.all(results)).resolves.toEqual([1, 2, 3]);
+    expect(scheduler.stats()).toMatchObject({ active: 0, queued: 0, completed: 3 });
+  });
+
+  it('should start higher priority jobs first', async () => {
+    const scheduler = new WorkScheduler('test', 1);
+    const order: string[] = [];
+    const blocker = deferredJob('blocker');
+
+    const blocked = scheduler.run(blocker.job);
+    const runs = [
+      scheduler.run(async () => order.push('low'), { priority: 1 }),
+      scheduler.run(async () => order.push('high'), { priority: 10 }),
+      scheduler.run(async () => order.push('default')),
+    ];
+
+    await flush();
+    blocker.release();
+    await Promise.all([blocked, ...runs]);
+
+    expect(order).toEqual(['high', 'low', 'default']);
+  });
+
+  it('should cancel queued jobs when their signal aborts', async () => {
+    const scheduler = new WorkScheduler('test', 1);
+    const blocker = deferredJob('blocker');
+    const controller = new AbortController();
+    const cancelledJob = jest.fn(async () => 'never');
+
+    const blocked = scheduler.run(blocker.job);
+    const cancelled = scheduler.run(cancelledJob, { signal: controller.signal });
+
+    await flush();
+    controller.abort();
+    await expect(cancelled).rejects.toBeInstanceOf(CancelledError);
+
+    blocker.release();
+    await blocked;
+
+    expect(cancelledJob).not.toHaveBeenCalled();
+    expect(scheduler.stats()).toMatchObject({ queued: 0, cancelled: 1 });
+  });
+
+  it('should pass the signal to running jobs', async () => {
+    const scheduler = new WorkScheduler('test', 1);
+    const controller = new AbortController();
+
+    const received = await scheduler.run(async (signal) => signal, { signal: controller.signal });
+
+    expect(received).toBe(controller.signal);
+  });
+});
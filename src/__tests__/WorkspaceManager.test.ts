@@ -0,0 +1,126 @@
+/**
+ * Tests for WorkspaceManager
+ */
+
+import { WorkspaceManager } from '../engines/WorkspaceManager.js';
+import { IndexNotReadyError, NotFoundError, ServerConfig, ValidationError } from '../types.js';
+import { MemoryCache } from '../utils/cache.js';
+import { ParsePool } from '../utils/parsePool.js';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Create a Foundation checkout with a package.json and one component
+ */
+async function createCheckout(root: string, name: string, version: string | null, component: string) {
+  const repoPath = path.join(root, name);
+  await fs.mkdir(path.join(repoPath, 'scss/components'), { recursive: true });
+  await fs.writeFile(path.join(repoPath, `scss/components/_${component}.scss`), `@mixin ${component}-base {}\n`);
+  if (version) {
+    await fs.writeFile(
+      path.join(repoPath, 'package.json'),
+      JSON.stringify({ name: 'foundation-sites', version })
+    );
+  }
+  return repoPath;
+}
+
+describe('WorkspaceManager', () => {
+  let root: string;
+  let config: ServerConfig;
+  let cache: MemoryCache;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'foundation-workspaces-'));
+    config = {
+      transport: 'stdio',
+      host: '127.0.0.1',
+      port: 8000,
+      logLevel: 'error',
+      foundationRepoPath: await createCheckout(root, 'current', '6.9.0', 'badge'),
+      workspaces: [
+        { path: await createCheckout(root, 'legacy', '6.4.3', 'label') },
+        { path: await createCheckout(root, 'pinned', null, 'callout'), version: 'lts' },
+      ],
+      extensions: [],
+      toolDefaults: {},
+      cache: { ttl: 3600, backend: 'memory', maxSize: 1000 },
+      performance: { maxConcurrentOperations: 2, indexWaitMs: 1000, parseWorkers: 0, workerMinInputBytes: 0 },
+      security: { enableRateLimiting: false, rateLimitPerMinute: 60, expensiveRateLimitPerMinute: 10 },
+      watch: { enabled: false, debounceMs: 250 },
+      snapshot: { enabled: false, directory: root },
+      audit: { enabled: false, path: 'audit.jsonl', maxBytes: 1024 * 1024, maxFiles: 1, redactArguments: [], crossSessionQueries: false },
+    };
+    cache = new MemoryCache(1000, 3600);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const createManager = () => new WorkspaceManager(config, cache, new ParsePool(config.performance));
+
+  it('should label workspaces from package.json unless configured', async () => {
+    const summaries = await createManager().describe();
+
+    expect(summaries.map(s => s.version)).toEqual(['6.9.0', '6.4.3', 'lts']);
+    expect(summaries[0].isDefault).toBe(true);
+    expect(summaries[2].packageVersion).toBeNull();
+  });
+
+  it('should hide checkout paths outside the working directory', async () => {
+    const summaries = await createManager().describe();
+
+    expect(summaries.map(s => s.path)).toEqual(['redacted', 'redacted', 'redacted']);
+  });
+
+  it('should stop waiting for an index build after indexWaitMs', async () => {
+    config.performance.indexWaitMs = 10;
+    const manager = createManager();
+    const workspace = await manager.resolve();
+    jest.spyOn(workspace.indexer, 'buildIndex').mockReturnValue(new Promise(() => undefined));
+
+    const error = await manager.waitForIndex(workspace).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(IndexNotReadyError);
+    expect(error.details).toMatchObject({ version: '6.9.0', state: 'pending', retryAfterSeconds: 5 });
+  });
+
+  it('should return the index once it is built', async () => {
+    const manager = createManager();
+    const index = await manager.waitForIndex(await manager.resolve());
+
+    expect(index.components.map(component => component.slug)).toEqual(['badge']);
+  });
+
+  it('should resolve labels, release lines and the default', async () => {
+    const manager = createManager();
+
+    expect((await manager.resolve()).version).toBe('6.9.0');
+    expect((await manager.resolve('6.4')).version).toBe('6.4.3');
+    expect((await manager.resolve('lts')).version).toBe('lts');
+    await expect(manager.resolve('5')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should reject ambiguous release lines', async () => {
+    config.workspaces.push({ path: await createCheckout(root, 'older', '6.4.0', 'card') });
+
+    await expect(createManager().resolve('6.4')).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should reject duplicate version labels', async () => {
+    config.workspaces.push({ path: config.foundationRepoPath });
+
+    await expect(createManager().list()).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should index each workspace into its own cache namespace', async () => {
+    const manager = createManager();
+    const current = await (await manager.resolve()).indexer.buildIndex();
+    const legacy = await (await manager.resolve('6.4.3')).indexer.buildIndex();
+
+    expect(current.components.map(c => c.slug)).toEqual(['badge']);
+    expect(legacy.components.map(c => c.slug)).toEqual(['label']);
+  });
+});
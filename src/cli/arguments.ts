@@ -0,0 +1,208 @@
+/**
+ * Command-line argument parsing for the foundation-mcp CLI
+ */
+
+import { z } from 'zod';
+import { ValidationError } from '../types.js';
+
+export type FlagValue = string | boolean | string[];
+
+export interface ParsedArgv {
+  positionals: string[];
+  flags: Record<string, FlagValue>;
+}
+
+/**
+ * Split argv into positionals and flags. Supports `--flag value`,
+ * `--flag=value`, bare `--flag` (true), `--no-flag` (false) and repeated
+ * flags (collected into a list). Boolean flags never consume the next
+ * argument. Everything after `--` is positional.
+ */
+export function parseArgv(
+  argv: string[],
+  isBooleanFlag: (name: string) => boolean = () => false
+): ParsedArgv {
+  const positionals: string[] = [];
+  const flags: Record<string, FlagValue> = {};
+
+  const setFlag = (name: string, value: string | boolean) => {
+    const existing = flags[name];
+    if (existing === undefined) {
+      flags[name] = value;
+    } else if (typeof value === 'string') {
+      flags[name] = [...(Array.isArray(existing) ? existing : [String(existing)]), value];
+    } else {
+      flags[name] = value;
+    }
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+
+    if (arg === '-h') {
+      setFlag('help', true);
+      continue;
+    }
+
+    if (!arg.startsWith('--') || arg.length === 2) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const body = arg.slice(2);
+    const separator = body.indexOf('=');
+
+    if (separator !== -1) {
+      setFlag(body.slice(0, separator), body.slice(separator + 1));
+    } else if (body.startsWith('no-')) {
+      setFlag(body.slice(3), false);
+    } else if (!isBooleanFlag(body) && i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      setFlag(body, argv[++i]);
+    } else {
+      setFlag(body, true);
+    }
+  }
+
+  return { positionals, flags };
+}
+
+/**
+ * Convert a kebab-case flag segment to the camelCase tool argument
+ */
+export function toCamelCase(name: string): string {
+  return name.replace(/-([a-z0-9])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Strip optional, default, nullable and refinement wrappers
+ */
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodDefault ||
+    schema instanceof z.ZodNullable
+  ) {
+    return unwrap(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return unwrap(schema._def.schema);
+  }
+  return schema;
+}
+
+/**
+ * Find the schema of a dotted argument path such as features.keyboard
+ */
+function schemaAt(schema: z.AnyZodObject, path: string[]): z.ZodTypeAny | undefined {
+  let current: z.ZodTypeAny = schema;
+
+  for (const key of path) {
+    const object = unwrap(current);
+    if (!(object instanceof z.ZodObject)) {
+      return undefined;
+    }
+    current = object.shape[key];
+    if (!current) {
+      return undefined;
+    }
+  }
+
+  return unwrap(current);
+}
+
+/**
+ * Whether a flag maps to a boolean argument of the schema
+ */
+export function isBooleanOption(schema: z.AnyZodObject, flag: string): boolean {
+  return schemaAt(schema, flag.split('.').map(toCamelCase)) instanceof z.ZodBoolean;
+}
+
+/**
+ * Coerce a flag value to the type the schema expects. Anything the
+ * schema rejects is left as-is so zod reports it against the argument.
+ */
+function coerce(schema: z.ZodTypeAny, value: FlagValue): unknown {
+  const values: Array<string | boolean> = Array.isArray(value) ? value : [value];
+  const last = values[values.length - 1];
+
+  if (schema instanceof z.ZodBoolean) {
+    return last === 'true' ? true : last === 'false' ? false : last;
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const number = Number(last);
+    return typeof last === 'string' && last.trim() !== '' && !Number.isNaN(number) ? number : last;
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return values.flatMap<string | boolean>(item =>
+      typeof item === 'string' ? item.split(',').map(part => part.trim()) : [item]
+    );
+  }
+
+  if (schema instanceof z.ZodObject || schema instanceof z.ZodRecord || schema instanceof z.ZodAny) {
+    if (typeof last !== 'string') {
+      return last;
+    }
+    try {
+      return JSON.parse(last);
+    } catch {
+      throw new ValidationError(`Expected JSON for this option: ${last}`);
+    }
+  }
+
+  return last;
+}
+
+/**
+ * Turn CLI flags into tool arguments, typed by the tool's zod schema.
+ * Flags override values from the JSON input.
+ */
+export function buildToolArguments(
+  schema: z.AnyZodObject,
+  flags: Record<string, FlagValue>,
+  input: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const args: Record<string, unknown> = structuredClone(input);
+
+  for (const [flag, value] of Object.entries(flags)) {
+    const path = flag.split('.').map(toCamelCase);
+    const fieldSchema = schemaAt(schema, path);
+
+    if (!fieldSchema) {
+      throw new ValidationError(`Unknown option --${flag}`, { option: flag });
+    }
+
+    let target = args;
+    for (const key of path.slice(0, -1)) {
+      if (typeof target[key] !== 'object' || target[key] === null) {
+        target[key] = {};
+      }
+      target = target[key] as Record<string, unknown>;
+    }
+    target[path[path.length - 1]] = coerce(fieldSchema, value);
+  }
+
+  return args;
+}
+
+/**
+ * Describe a schema's top-level options for --help output
+ */
+export function describeOptions(schema: z.AnyZodObject): string[] {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([key, field]) => {
+    const flag = `--${key.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}`;
+    const inner = unwrap(field);
+    const type = inner instanceof z.ZodEnum
+      ? (inner.options as string[]).join('|')
+      : inner._def.typeName.replace(/^Zod/, '').toLowerCase();
+    const required = field.isOptional() ? '' : ' (required)';
+    const description = field.description ?? inner.description ?? '';
+    return `  ${flag} <${type}>${required}  ${description}`.trimEnd();
+  });
+}
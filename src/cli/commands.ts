@@ -0,0 +1,165 @@
+/**
+ * foundation-mcp CLI subcommands, each backed by an MCP tool
+ */
+
+import { z } from 'zod';
+import {
+  GeneratePluginSchema,
+  GenerateComponentSchema,
+  AnalyzePatternSchema,
+  FindSimilarPatternSchema,
+  QueryArchitectureSchema,
+  RefactorToFoundationSchema,
+  ValidatePluginSchema,
+  WordPressIntegrationSchema,
+  GetSettingsReferenceSchema,
+  GetSassApiReferenceSchema,
+  GetGridReferenceSchema,
+  GetServerStatusSchema,
+  QueryAuditLogSchema,
+  RebuildIndexSchema,
+  VersionSchema,
+  AnalyzePatternOutputSchema,
+  ValidatePluginOutputSchema,
+} from '../types.js';
+
+const ReferenceSchema = z.object({
+  slug: z.string().min(1).describe('Plugin or component slug (e.g., accordion)'),
+  version: VersionSchema,
+});
+
+export interface CliCommand {
+  name: string;
+  summary: string;
+  tool: string;
+  /** Tool tried next when the first one reports NOT_FOUND */
+  fallbackTool?: string;
+  schema: z.AnyZodObject;
+  /**
+   * Argument filled from the first positional. Source arguments read a
+   * file path, or stdin for "-", instead of taking the text literally.
+   */
+  positional?: { argument: string; source: boolean };
+  /** Whether a successful result still means the check failed */
+  failed?: (result: unknown) => boolean;
+}
+
+export const CLI_COMMANDS: CliCommand[] = [
+  {
+    name: 'generate-plugin',
+    summary: 'Generate a new Foundation plugin with tests and docs',
+    tool: 'generate_plugin',
+    schema: GeneratePluginSchema,
+    positional: { argument: 'name', source: false },
+  },
+  {
+    name: 'generate-component',
+    summary: 'Generate a new Foundation Sass component',
+    tool: 'generate_component',
+    schema: GenerateComponentSchema,
+    positional: { argument: 'name', source: false },
+  },
+  {
+    name: 'analyze',
+    summary: 'Analyze code against Foundation patterns',
+    tool: 'analyze_pattern',
+    schema: AnalyzePatternSchema,
+    positional: { argument: 'code', source: true },
+    failed: result => {
+      const parsed = AnalyzePatternOutputSchema.pick({ issues: true }).safeParse(result);
+      return parsed.success && parsed.data.issues.some(issue => issue.severity === 'error');
+    },
+  },
+  {
+    name: 'find',
+    summary: 'Find similar plugins and components',
+    tool: 'find_similar_pattern',
+    schema: FindSimilarPatternSchema,
+    positional: { argument: 'query', source: false },
+  },
+  {
+    name: 'architecture',
+    summary: 'Ask an architecture question',
+    tool: 'query_architecture',
+    schema: QueryArchitectureSchema,
+    positional: { argument: 'question', source: false },
+  },
+  {
+    name: 'refactor',
+    summary: 'Plan a migration of custom code to Foundation',
+    tool: 'refactor_to_foundation',
+    schema: RefactorToFoundationSchema,
+    positional: { argument: 'sourceCode', source: true },
+  },
+  {
+    name: 'validate-plugin',
+    summary: 'Validate plugin code; exits 1 when it does not follow Foundation standards',
+    tool: 'validate_plugin',
+    schema: ValidatePluginSchema,
+    positional: { argument: 'code', source: true },
+    failed: result => {
+      const parsed = ValidatePluginOutputSchema.pick({ valid: true }).safeParse(result);
+      return parsed.success && !parsed.data.valid;
+    },
+  },
+  {
+    name: 'reference',
+    summary: 'Show the reference for a plugin, or a component when no plugin matches',
+    tool: 'get_plugin_reference',
+    fallbackTool: 'get_component_reference',
+    schema: ReferenceSchema,
+    positional: { argument: 'slug', source: false },
+  },
+  {
+    name: 'settings',
+    summary: 'List Sass settings, optionally for one component, section or search',
+    tool: 'get_settings_reference',
+    schema: GetSettingsReferenceSchema,
+    positional: { argument: 'query', source: false },
+  },
+  {
+    name: 'sass',
+    summary: 'List Sass functions and mixins, optionally matching a search',
+    tool: 'get_sass_api_reference',
+    schema: GetSassApiReferenceSchema,
+    positional: { argument: 'query', source: false },
+  },
+  {
+    name: 'grid',
+    summary: 'Show the mixins, variables, classes and breakpoints of a grid, or of both grids',
+    tool: 'get_grid_reference',
+    schema: GetGridReferenceSchema,
+    positional: { argument: 'slug', source: false },
+  },
+  {
+    name: 'wordpress',
+    summary: 'Guidance for using Foundation in a WordPress theme or plugin',
+    tool: 'wordpress_integration_guide',
+    schema: WordPressIntegrationSchema,
+  },
+  {
+    name: 'status',
+    summary: 'Show index, cache and tool metrics',
+    tool: 'get_server_status',
+    schema: GetServerStatusSchema,
+  },
+  {
+    name: 'rebuild-index',
+    summary: 'Re-parse every file, discarding the cached index and snapshot',
+    tool: 'rebuild_index',
+    schema: RebuildIndexSchema,
+  },
+  {
+    name: 'audit',
+    summary: 'List recent entries from the audit log',
+    tool: 'query_audit_log',
+    schema: QueryAuditLogSchema,
+  },
+];
+
+/**
+ * Look up a subcommand by name
+ */
+export function findCommand(name: string): CliCommand | undefined {
+  return CLI_COMMANDS.find(command => command.name === name);
+}
@@ -0,0 +1,272 @@
+#!/usr/bin/env node
+/**
+ * foundation-mcp: run Foundation MCP tools from the command line
+ */
+
+import { loadConfig } from '../config.js';
+import { FoundationMCPServer } from '../server.js';
+import { ValidationError } from '../types.js';
+import { fileExists, readFile } from '../utils/fileSystem.js';
+import { logger } from '../utils/logger.js';
+import type { ToolErrorPayload } from '../utils/errors.js';
+import { buildToolArguments, describeOptions, isBooleanOption, parseArgv } from './arguments.js';
+import { CLI_COMMANDS, CliCommand, findCommand } from './commands.js';
+import { formatError, formatHuman, writeGeneratedFiles } from './output.js';
+
+/**
+ * Exit codes for scripts and git hooks
+ */
+export const ExitCode = {
+  Success: 0,
+  CheckFailed: 1,
+  Usage: 2,
+  Error: 3,
+} as const;
+
+/**
+ * Flags handled by the CLI itself rather than passed to the tool
+ */
+const CLI_FLAGS = ['help', 'json', 'input', 'out-dir', 'config'];
+
+interface ToolCallResult {
+  content: Array<{ text: string }>;
+  isError?: boolean;
+}
+
+/**
+ * Write a line to stdout
+ */
+function print(text: string): void {
+  process.stdout.write(`${text}\n`);
+}
+
+/**
+ * Write a line to stderr
+ */
+function printError(text: string): void {
+  process.stderr.write(`${text}\n`);
+}
+
+/**
+ * Top-level usage text
+ */
+function usage(): string {
+  const width = Math.max(...CLI_COMMANDS.map(command => command.name.length));
+  return [
+    'Usage: foundation-mcp <command> [argument] [--option value ...]',
+    '',
+    'Commands:',
+    ...CLI_COMMANDS.map(command => `  ${command.name.padEnd(width)}  ${command.summary}`),
+    '',
+    'Global options:',
+    '  --input <file|->   Read tool arguments as JSON from a file or stdin; flags override it',
+    '  --json             Print the raw JSON result',
+    '  --out-dir <dir>    Write generated files under <dir> (generate-* commands)',
+    '  --config <file>    Config file (default: foundation-mcp.config.* in the working directory)',
+    '  --help             Show help for a command',
+    '',
+    'Exit codes: 0 success, 1 check failed, 2 invalid usage or arguments, 3 error',
+  ].join('\n');
+}
+
+/**
+ * Usage text for one command
+ */
+function commandUsage(command: CliCommand): string {
+  const argument = command.positional
+    ? ` [${command.positional.argument}${command.positional.source ? ' | file | -' : ''}]`
+    : '';
+  return [
+    `Usage: foundation-mcp ${command.name}${argument} [--option value ...]`,
+    '',
+    command.summary,
+    '',
+    'Options:',
+    ...describeOptions(command.schema),
+  ].join('\n');
+}
+
+/**
+ * Read all of stdin
+ */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Resolve a source argument: "-" reads stdin, an existing path reads the file
+ */
+async function readSource(value: string): Promise<string> {
+  if (value === '-') {
+    return readStdin();
+  }
+  return (await fileExists(value)) ? readFile(value) : value;
+}
+
+/**
+ * Load the --input JSON object
+ */
+async function readInput(value: string | undefined): Promise<Record<string, unknown>> {
+  if (!value) {
+    return {};
+  }
+
+  const text = value === '-' ? await readStdin() : await readFile(value);
+  const input = JSON.parse(text);
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('--input must contain a JSON object');
+  }
+  return input;
+}
+
+/**
+ * Parse the JSON text of a tool result
+ */
+function parseResult(result: ToolCallResult): unknown {
+  const text = result.content[0]?.text ?? '';
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Exit code for a tool error
+ */
+function exitCodeFor(error: ToolErrorPayload): number {
+  switch (error.code) {
+    case 'VALIDATION_ERROR':
+      return ExitCode.Usage;
+    case 'PARSE_ERROR':
+      return ExitCode.CheckFailed;
+    default:
+      return ExitCode.Error;
+  }
+}
+
+/**
+ * Run the CLI and return the process exit code
+ */
+export async function run(argv: string[]): Promise<number> {
+  const command = argv[0] ? findCommand(argv[0]) : undefined;
+
+  if (!command) {
+    const wantsHelp = argv.length === 0 || ['help', '--help', '-h'].includes(argv[0]);
+    (wantsHelp ? print : printError)(
+      wantsHelp ? usage() : `Unknown command: ${argv[0]}\n\n${usage()}`
+    );
+    return wantsHelp ? ExitCode.Success : ExitCode.Usage;
+  }
+
+  const { positionals, flags } = parseArgv(
+    argv.slice(1),
+    flag => flag === 'help' || flag === 'json' || isBooleanOption(command.schema, flag)
+  );
+
+  if (flags.help) {
+    print(commandUsage(command));
+    return ExitCode.Success;
+  }
+
+  const json = flags.json === true;
+  const outDir = typeof flags['out-dir'] === 'string' ? flags['out-dir'] : undefined;
+  const toolFlags = Object.fromEntries(
+    Object.entries(flags).filter(([flag]) => !CLI_FLAGS.includes(flag))
+  );
+
+  let args: Record<string, unknown>;
+  try {
+    args = buildToolArguments(
+      command.schema,
+      toolFlags,
+      await readInput(typeof flags.input === 'string' ? flags.input : undefined)
+    );
+
+    if (positionals.length > 1 || (positionals.length === 1 && !command.positional)) {
+      throw new Error(`Unexpected argument: ${positionals[command.positional ? 1 : 0]}`);
+    }
+    if (command.positional && positionals[0] !== undefined) {
+      const { argument, source } = command.positional;
+      args[argument] = source ? await readSource(positionals[0]) : positionals[0];
+    }
+  } catch (error) {
+    printError(`${(error as Error).message}\n\n${commandUsage(command)}`);
+    return ExitCode.Usage;
+  }
+
+  let config;
+  try {
+    config = await loadConfig({
+      configPath: typeof flags.config === 'string' ? flags.config : undefined,
+    });
+  } catch (error) {
+    printError(`Error: ${(error as Error).message}`);
+    return ExitCode.Usage;
+  }
+
+  // The CLI is a single local caller: no throttling, no file watching
+  config.security.enableRateLimiting = false;
+  config.watch.enabled = false;
+  // The local user can read the audit file anyway; sessions only isolate MCP clients
+  config.audit.crossSessionQueries = true;
+
+  // A one-shot command has nothing else to do while the index builds
+  const server = new FoundationMCPServer({
+    ...config,
+    performance: { ...config.performance, indexWaitMs: 0 },
+  });
+  let result: ToolCallResult;
+  try {
+    result = await server.callTool(command.tool, args);
+  } catch (error) {
+    // Configured tool defaults are checked on the first call
+    if (error instanceof ValidationError) {
+      printError(`Error: ${error.message}`);
+      return ExitCode.Usage;
+    }
+    throw error;
+  }
+  let payload = parseResult(result);
+
+  if (result.isError && command.fallbackTool &&
+    (payload as { error?: ToolErrorPayload }).error?.code === 'NOT_FOUND') {
+    result = await server.callTool(command.fallbackTool, args);
+    payload = parseResult(result);
+  }
+
+  if (result.isError) {
+    const error = (payload as { error: ToolErrorPayload }).error;
+    if (json) {
+      print(JSON.stringify(payload, null, 2));
+    } else {
+      printError(formatError(error));
+    }
+    return exitCodeFor(error);
+  }
+
+  if (outDir) {
+    const written = await writeGeneratedFiles(payload, outDir);
+    written.forEach(file => printError(`Wrote ${file}`));
+  }
+
+  print(json ? JSON.stringify(payload, null, 2) : formatHuman(payload));
+
+  return command.failed?.(payload) ? ExitCode.CheckFailed : ExitCode.Success;
+}
+
+// Keep CLI output clean: the CLI reports tool errors itself
+if (!process.env.MCP_LOG_LEVEL) {
+  logger.setLevel('error');
+}
+
+run(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    printError(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(ExitCode.Error);
+  });
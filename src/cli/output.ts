@@ -0,0 +1,91 @@
+/**
+ * Output formatting for the foundation-mcp CLI
+ */
+
+import path from 'path';
+import { GeneratedFile } from '../types.js';
+import { writeFile } from '../utils/fileSystem.js';
+import type { ToolErrorPayload } from '../utils/errors.js';
+
+/**
+ * Convert a camelCase or snake_case key into a readable label
+ */
+function toLabel(key: string): string {
+  return key
+    .replace(/_/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/^./, letter => letter.toUpperCase());
+}
+
+/**
+ * Render a tool result as indented plain text
+ */
+export function formatHuman(value: unknown, indent = ''): string {
+  if (value === null || value === undefined) {
+    return `${indent}-`;
+  }
+
+  if (typeof value !== 'object') {
+    const text = String(value);
+    return text.split('\n').map(line => `${indent}${line}`).join('\n');
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return `${indent}(none)`;
+    }
+    return value
+      .map(item => typeof item === 'object' && item !== null
+        ? `${indent}-\n${formatHuman(item, `${indent}  `)}`
+        : `${indent}- ${String(item)}`)
+      .join('\n');
+  }
+
+  return Object.entries(value)
+    .map(([key, entry]) => {
+      const isScalar = entry === null || typeof entry !== 'object';
+      if (isScalar && !String(entry).includes('\n')) {
+        return `${indent}${toLabel(key)}: ${entry ?? '-'}`;
+      }
+      return `${indent}${toLabel(key)}:\n${formatHuman(entry, `${indent}  `)}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Render a tool error for stderr
+ */
+export function formatError(error: ToolErrorPayload): string {
+  const lines = [`Error [${error.code}]: ${error.message}`];
+
+  for (const issue of error.issues ?? []) {
+    lines.push(`  --${issue.path}: ${issue.message}`);
+  }
+
+  lines.push(`Hint: ${error.hint}`);
+  return lines.join('\n');
+}
+
+/**
+ * Write the files of a generator result under a directory
+ */
+export async function writeGeneratedFiles(result: unknown, outDir: string): Promise<string[]> {
+  const files = (result as { files?: Record<string, GeneratedFile | undefined> })?.files ?? {};
+  const written: string[] = [];
+
+  for (const file of Object.values(files)) {
+    if (!file) {
+      continue;
+    }
+
+    const target = path.resolve(outDir, file.path);
+    if (!target.startsWith(path.resolve(outDir) + path.sep)) {
+      throw new Error(`Refusing to write outside ${outDir}: ${file.path}`);
+    }
+
+    await writeFile(target, file.content);
+    written.push(target);
+  }
+
+  return written;
+}
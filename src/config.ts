@@ -3,9 +3,19 @@
  */
 
 import { config as loadEnv } from 'dotenv';
+import os from 'os';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { ServerConfig } from './types.js';
+import { ZodError } from 'zod';
+import { ServerConfig, ServerConfigSchema, ValidationError } from './types.js';
+import {
+  configError,
+  configFromEnv,
+  findConfigFile,
+  mergeConfig,
+  PartialServerConfig,
+  readConfigFile,
+} from './utils/configLoader.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -13,53 +23,48 @@ const __dirname = path.dirname(__filename);
 // Load environment variables
 loadEnv();
 
+export interface LoadConfigOptions {
+  /** Explicit config file; otherwise FOUNDATION_MCP_CONFIG, then discovery in cwd */
+  configPath?: string;
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
 /**
- * Get configuration from environment variables
+ * Load configuration: defaults, then the config file, then environment
+ * variables. The result is validated.
  */
-export function getConfig(): ServerConfig {
-  const foundationRepoPath = process.env.FOUNDATION_REPO_PATH || 
-    path.resolve(__dirname, '../../');
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<ServerConfig> {
+  const env = options.env ?? process.env;
+  const configPath = options.configPath ?? env.FOUNDATION_MCP_CONFIG;
+  const filePath = configPath ?? await findConfigFile(options.cwd ?? process.cwd());
 
-  return {
-    port: parseInt(process.env.MCP_PORT || '8000', 10),
-    logLevel: (process.env.MCP_LOG_LEVEL as any) || 'info',
-    foundationRepoPath,
-    cache: {
-      ttl: parseInt(process.env.CACHE_TTL || '3600', 10),
-      backend: (process.env.CACHE_BACKEND as 'memory' | 'redis') || 'memory',
-      maxSize: parseInt(process.env.CACHE_MAX_SIZE || '1000', 10),
-      redisUrl: process.env.REDIS_URL,
-    },
-    performance: {
-      maxConcurrentOperations: parseInt(
-        process.env.MAX_CONCURRENT_OPERATIONS || '10',
-        10
-      ),
-    },
-    security: {
-      enableRateLimiting: process.env.ENABLE_RATE_LIMITING === 'true',
-      rateLimitPerMinute: parseInt(
-        process.env.RATE_LIMIT_PER_MINUTE || '60',
-        10
-      ),
-    },
-  };
+  const fileConfig: PartialServerConfig | undefined = filePath
+    ? await readConfigFile(path.resolve(options.cwd ?? process.cwd(), filePath))
+    : undefined;
+
+  const config = mergeConfig(DEFAULT_CONFIG, fileConfig, configFromEnv(env));
+  validateConfig(config);
+  return config;
 }
 
 /**
  * Validate configuration
  */
 export function validateConfig(config: ServerConfig): void {
-  if (!config.foundationRepoPath) {
-    throw new Error('FOUNDATION_REPO_PATH is required');
+  try {
+    ServerConfigSchema.parse(config);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw configError(error);
+    }
+    throw error;
   }
 
   if (config.cache.backend === 'redis' && !config.cache.redisUrl) {
-    throw new Error('REDIS_URL is required when using redis cache backend');
-  }
-
-  if (config.port < 1 || config.port > 65535) {
-    throw new Error('MCP_PORT must be between 1 and 65535');
+    throw new ValidationError('REDIS_URL is required when using redis cache backend', {
+      field: 'cache.redisUrl',
+    });
   }
 }
 
@@ -67,9 +72,13 @@ export function validateConfig(config: ServerConfig): void {
  * Default configuration
  */
 export const DEFAULT_CONFIG: ServerConfig = {
+  transport: 'stdio',
+  host: '127.0.0.1',
   port: 8000,
   logLevel: 'info',
   foundationRepoPath: path.resolve(__dirname, '../../'),
+  workspaces: [],
+  extensions: [],
   cache: {
     ttl: 3600,
     backend: 'memory',
@@ -77,9 +86,30 @@ export const DEFAULT_CONFIG: ServerConfig = {
   },
   performance: {
     maxConcurrentOperations: 10,
+    indexWaitMs: 15000,
+    parseWorkers: Math.max(1, Math.min(4, os.cpus().length - 1)),
+    workerMinInputBytes: 32 * 1024,
   },
   security: {
-    enableRateLimiting: true,
+    enableRateLimiting: false,
     rateLimitPerMinute: 60,
+    expensiveRateLimitPerMinute: 10,
+  },
+  watch: {
+    enabled: false,
+    debounceMs: 250,
+  },
+  snapshot: {
+    enabled: true,
+    directory: path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'foundation-mcp'),
+  },
+  audit: {
+    enabled: false,
+    path: path.resolve('foundation-mcp-audit.jsonl'),
+    maxBytes: 10 * 1024 * 1024,
+    maxFiles: 5,
+    redactArguments: ['code', 'sourceCode'],
+    crossSessionQueries: false,
   },
+  toolDefaults: {},
 };
@@ -7,96 +7,533 @@ import {
   FoundationIndex,
   FoundationPlugin,
   FoundationComponent,
+  FoundationDocPage,
   FoundationUtility,
   FoundationGrid,
+  FoundationGridFile,
+  GridBreakpoint,
+  GridClassPattern,
+  FoundationSassFile,
+  FoundationSetting,
+  FoundationSettingsFile,
   ServerConfig,
   CacheInterface,
+  PluginArchitecture,
+  IndexChangeSet,
+  IndexFailure,
+  IndexStats,
+  OperationContext,
+  ProgressUpdate,
+  CancelledError,
 } from '../types.js';
-import { findFiles, readFile, joinPath } from '../utils/fileSystem.js';
-import { parsePlugin, parseComponent, extractJSDoc, extractSassDoc } from '../utils/parser.js';
+import { findFiles, readFile, joinPath, fileExists, getFileStats } from '../utils/fileSystem.js';
+import { extractJSDoc, extractSassDoc, toKebabCase } from '../utils/parser.js';
+import { ParsePool } from '../utils/parsePool.js';
 import { CacheKeys } from '../utils/cache.js';
 import { logger } from '../utils/logger.js';
+import { ProgressTracker, throwIfCancelled } from '../utils/progress.js';
+import {
+  hashContent,
+  IndexSnapshotStore,
+  SnapshotEntry,
+  SnapshotFile,
+  SnapshotFileKind,
+} from './IndexSnapshot.js';
+
+/**
+ * Index section a repository file belongs to
+ */
+type IndexedFileKind = 'plugin' | 'component' | 'utility' | 'settings' | 'sass' | 'grid' | 'docs';
+
+/**
+ * Source directories the index reads; any that are missing leave the
+ * index partial rather than failing the build
+ */
+const SOURCE_DIRECTORIES = ['js', 'scss/components'];
+
+/**
+ * Global Sass settings, merged with the components' `!default` variables
+ */
+const SETTINGS_FILE = 'scss/settings/_settings.scss';
+
+/**
+ * Sass functions and mixins of the public API
+ */
+const SASS_UTIL_DIRECTORY = 'scss/util';
+
+/**
+ * Grid systems and the directory holding each one's sources
+ */
+const GRID_SYSTEMS = [
+  {
+    name: 'XY Grid',
+    slug: 'xy-grid',
+    scssPath: 'scss/xy-grid/',
+    description: 'Modern CSS Grid and Flexbox-based layout system',
+  },
+  {
+    name: 'Float Grid',
+    slug: 'float-grid',
+    scssPath: 'scss/grid/',
+    description: 'Classic float-based grid system',
+  },
+];
+
+/**
+ * `$breakpoints` and `$breakpoint-classes` as Foundation ships them, for
+ * checkouts whose settings file does not declare them
+ */
+const DEFAULT_BREAKPOINTS = '(small: 0, medium: 640px, large: 1024px, xlarge: 1200px, xxlarge: 1440px)';
+const DEFAULT_BREAKPOINT_CLASSES = '(small medium large)';
+
+/**
+ * Markdown sources of the documentation site
+ */
+const DOCS_DIRECTORY = 'docs/pages';
+
+/**
+ * Parses a source file into its index entry
+ */
+type FileParser<T> = (filePath: string, content: string, context?: OperationContext) => Promise<T | null>;
+
+/**
+ * State of one full index build
+ */
+interface BuildState {
+  tracker: ProgressTracker;
+  context: OperationContext;
+  /** Files recorded in the snapshot the build started from */
+  previous: Record<string, SnapshotFile>;
+  /** Files as indexed by this build */
+  files: Map<string, SnapshotFile>;
+  reused: number;
+  parsed: number;
+}
+
+/**
+ * Index build shared by every caller that asked for it while it was running
+ */
+interface SharedBuild {
+  promise: Promise<FoundationIndex>;
+  controller: AbortController;
+  listeners: Set<(update: ProgressUpdate) => void>;
+  waiters: number;
+}
 
 export class CodebaseIndexer {
   private config: ServerConfig;
   private cache: CacheInterface;
+  private parsePool: ParsePool;
+  private pendingBuild: SharedBuild | null = null;
+  private failures = new Map<string, IndexFailure>();
+  private snapshots?: IndexSnapshotStore;
+  /** Source files behind the current index, as saved in the snapshot */
+  private snapshotFiles = new Map<string, SnapshotFile>();
+  private forceFullBuild = false;
+  private stats: Omit<IndexStats, 'failedFiles'> = {
+    state: 'pending',
+    missingDirectories: [],
+    parsedFiles: 0,
+    reusedFiles: 0,
+    builtAt: null,
+    buildDurationMs: null,
+    updatedAt: null,
+    counts: null,
+  };
 
-  constructor(config: ServerConfig, cache: CacheInterface) {
+  constructor(
+    config: ServerConfig,
+    cache: CacheInterface,
+    parsePool?: ParsePool,
+    snapshots?: IndexSnapshotStore
+  ) {
     this.config = config;
     this.cache = cache;
+    this.parsePool = parsePool ?? new ParsePool(config.performance);
+    this.snapshots = snapshots;
   }
 
   /**
    * Build complete index of Foundation codebase
    */
-  async buildIndex(): Promise<FoundationIndex> {
+  async buildIndex(context?: OperationContext): Promise<FoundationIndex> {
     logger.info('Building Foundation codebase index...');
 
     const cached = await this.cache.get<FoundationIndex>(CacheKeys.pluginIndex());
     if (cached) {
       logger.debug('Returning cached index');
+      // Another process may have built it into a shared cache
+      if (this.stats.state === 'pending') {
+        this.stats.state = 'ready';
+      }
       return cached;
     }
 
-    const [plugins, components, utilities, grids] = await Promise.all([
-      this.indexPlugins(),
-      this.indexComponents(),
-      this.indexUtilities(),
-      this.indexGrids(),
+    throwIfCancelled(context, 'Index build');
+
+    // Concurrent callers share a single in-flight build
+    if (!this.pendingBuild) {
+      this.pendingBuild = this.startBuild();
+    }
+
+    return this.waitForBuild(this.pendingBuild, context);
+  }
+
+  /**
+   * Re-parse every file, ignoring the cached index and the snapshot. Waits
+   * for a build already in progress first.
+   */
+  async rebuildIndex(context?: OperationContext): Promise<FoundationIndex> {
+    if (this.pendingBuild) {
+      await this.waitForBuild(this.pendingBuild, context).catch(error => {
+        if (error instanceof CancelledError) {
+          throw error;
+        }
+      });
+    }
+
+    this.forceFullBuild = true;
+    await this.invalidateCache();
+    return this.buildIndex(context);
+  }
+
+  /**
+   * Start a shared index build that fans progress out to every waiter
+   */
+  private startBuild(): SharedBuild {
+    const controller = new AbortController();
+    const listeners = new Set<(update: ProgressUpdate) => void>();
+    const previousState = this.stats.state;
+    this.stats.state = 'building';
+    delete this.stats.error;
+
+    const promise = this.indexRepository({
+      signal: controller.signal,
+      onProgress: update => {
+        this.stats.progress = update;
+        listeners.forEach(listener => listener(update));
+      },
+    });
+
+    const build: SharedBuild = { promise, controller, listeners, waiters: 0 };
+
+    promise
+      .then(
+        () => {
+          this.stats.state = this.stats.missingDirectories.length > 0 ? 'partial' : 'ready';
+        },
+        error => {
+          // A cancelled build leaves the index as it was
+          if (error instanceof CancelledError) {
+            this.stats.state = previousState;
+          } else {
+            this.stats.state = 'failed';
+            this.stats.error = error instanceof Error ? error.message : String(error);
+          }
+        }
+      )
+      .finally(() => {
+        delete this.stats.progress;
+        if (this.pendingBuild === build) {
+          this.pendingBuild = null;
+        }
+      });
+
+    return build;
+  }
+
+  /**
+   * Wait for a shared build. Cancelling stops this caller waiting, and
+   * aborts the build itself once no caller is left.
+   */
+  private waitForBuild(build: SharedBuild, context?: OperationContext): Promise<FoundationIndex> {
+    const listener = context?.onProgress;
+    const signal = context?.signal;
+    let waiting = true;
+
+    if (listener) {
+      build.listeners.add(listener);
+    }
+    build.waiters++;
+
+    return new Promise<FoundationIndex>((resolve, reject) => {
+      const leave = (): boolean => {
+        if (!waiting) {
+          return false;
+        }
+        waiting = false;
+        build.waiters--;
+        if (listener) {
+          build.listeners.delete(listener);
+        }
+        signal?.removeEventListener('abort', onAbort);
+        return true;
+      };
+
+      const onAbort = () => {
+        if (!leave()) {
+          return;
+        }
+        if (build.waiters === 0) {
+          logger.info('Index build cancelled');
+          build.controller.abort();
+          if (this.pendingBuild === build) {
+            this.pendingBuild = null;
+          }
+        }
+        reject(new CancelledError('Index build was cancelled'));
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      build.promise.then(
+        index => leave() && resolve(index),
+        error => leave() && reject(error)
+      );
+    });
+  }
+
+  /**
+   * Index the repository from scratch and cache the result
+   */
+  private async indexRepository(context: OperationContext): Promise<FoundationIndex> {
+    const startedAt = Date.now();
+    this.failures.clear();
+    this.stats.missingDirectories = await this.findMissingDirectories();
+
+    const [pluginFiles, componentFiles, utilityFiles, settingsFiles, sassFiles, gridFiles, docsFiles] = await Promise.all([
+      this.findPluginFiles(),
+      findFiles(joinPath(this.config.foundationRepoPath, 'scss/components'), '*.scss'),
+      findFiles(joinPath(this.config.foundationRepoPath, 'js'), 'foundation.util.*.js'),
+      this.findSettingsFile(),
+      findFiles(joinPath(this.config.foundationRepoPath, SASS_UTIL_DIRECTORY), '*.scss'),
+      this.findGridFiles(),
+      findFiles(joinPath(this.config.foundationRepoPath, DOCS_DIRECTORY), '*.md'),
+    ]);
+
+    const total = pluginFiles.length + componentFiles.length + utilityFiles.length +
+      settingsFiles.length + sassFiles.length + gridFiles.length + docsFiles.length;
+    const tracker = new ProgressTracker(total, context);
+    tracker.phase(`Discovered ${total} files to index`);
+
+    const build: BuildState = {
+      tracker,
+      context,
+      previous: await this.previousFiles(),
+      files: new Map(),
+      reused: 0,
+      parsed: 0,
+    };
+
+    const [plugins, components, utilities, gridSources, [settingsFile], sassApiFiles, docPages] = await Promise.all([
+      this.indexFiles(pluginFiles, 'plugin', build, (file, content, ctx) => this.parsePluginFile(file, content, ctx)),
+      this.indexFiles(componentFiles, 'component', build, (file, content, ctx) => this.parseComponentFile(file, content, ctx)),
+      this.indexFiles(utilityFiles, 'utility', build, (file, content, ctx) => this.parseUtilityFile(file, content, ctx)),
+      this.indexFiles(gridFiles, 'grid', build, (file, content, ctx) => this.parseGridFile(file, content, ctx)),
+      this.indexFiles(settingsFiles, 'settings', build, (file, content, ctx) => this.parseSettingsFile(file, content, ctx)),
+      this.indexFiles(sassFiles, 'sass', build, (file, content, ctx) => this.parseSassFile(file, content, ctx)),
+      this.indexFiles(docsFiles, 'docs', build, (file, content, ctx) => this.parseDocsFile(file, content, ctx)),
     ]);
 
+    throwIfCancelled(context, 'Index build');
+
+    this.snapshotFiles = build.files;
+    this.stats.reusedFiles = build.reused;
+    this.stats.parsedFiles = build.parsed;
+    await this.snapshots?.save(this.snapshotFiles);
+
+    const settings = this.buildSettingsCatalog(components, settingsFile ?? null);
     const index: FoundationIndex = {
       plugins,
       components,
       utilities,
-      grids,
+      grids: this.buildGrids(gridSources, settings),
+      settings,
+      sassApi: sassApiFiles.flatMap(file => file.callables),
+      docs: [],
     };
+    this.linkDocPages(index, docPages);
 
-    await this.cache.set(CacheKeys.pluginIndex(), index);
-    logger.info(`Index built: ${plugins.length} plugins, ${components.length} components`);
+    await this.storeIndex(index);
+    this.stats.builtAt = this.stats.updatedAt;
+    this.stats.buildDurationMs = Date.now() - startedAt;
+    logger.info(`Index built: ${plugins.length} plugins, ${components.length} components`, {
+      parsedFiles: build.parsed,
+      reusedFiles: build.reused,
+    });
 
     return index;
   }
 
   /**
-   * Index all plugins
+   * Files a build may reuse: those behind the current index, else the saved
+   * snapshot's. A forced rebuild reuses nothing.
    */
-  private async indexPlugins(): Promise<FoundationPlugin[]> {
-    const jsDir = joinPath(this.config.foundationRepoPath, 'js');
-    const pluginFiles = await findFiles(jsDir, 'foundation.*.js');
+  private async previousFiles(): Promise<Record<string, SnapshotFile>> {
+    if (this.forceFullBuild) {
+      this.forceFullBuild = false;
+      return {};
+    }
+    if (this.snapshotFiles.size > 0) {
+      return Object.fromEntries(this.snapshotFiles);
+    }
+    return (await this.snapshots?.load())?.files ?? {};
+  }
 
-    const plugins: FoundationPlugin[] = [];
+  /**
+   * Source directories absent from the checkout
+   */
+  private async findMissingDirectories(): Promise<string[]> {
+    const missing: string[] = [];
 
-    for (const file of pluginFiles) {
-      // Skip utility files and core files
-      if (
-        file.includes('foundation.util.') ||
-        file.includes('foundation.core.') ||
-        file.includes('foundation.js')
-      ) {
-        continue;
+    for (const directory of SOURCE_DIRECTORIES) {
+      const isDirectory = await getFileStats(joinPath(this.config.foundationRepoPath, directory))
+        .then(stats => stats.isDirectory(), () => false);
+      if (!isDirectory) {
+        missing.push(directory);
       }
+    }
 
+    if (missing.length > 0) {
+      logger.warn('Foundation checkout is missing source directories; serving a partial index', {
+        repoPath: this.config.foundationRepoPath,
+        missing,
+      });
+    }
+    return missing;
+  }
+
+  /**
+   * Whether the index has been built and can be served without waiting
+   */
+  isReady(): boolean {
+    return this.stats.state === 'ready' || this.stats.state === 'partial';
+  }
+
+  /**
+   * The settings file, when the checkout has one
+   */
+  private async findSettingsFile(): Promise<string[]> {
+    const settingsPath = joinPath(this.config.foundationRepoPath, SETTINGS_FILE);
+    return (await fileExists(settingsPath)) ? [settingsPath] : [];
+  }
+
+  /**
+   * Source files of every grid system
+   */
+  private async findGridFiles(): Promise<string[]> {
+    const files = await Promise.all(GRID_SYSTEMS.map(grid =>
+      findFiles(joinPath(this.config.foundationRepoPath, grid.scssPath), '*.scss')));
+    return files.flat();
+  }
+
+  /**
+   * Find plugin source files, skipping utility and core files
+   */
+  private async findPluginFiles(): Promise<string[]> {
+    const jsDir = joinPath(this.config.foundationRepoPath, 'js');
+    const files = await findFiles(jsDir, 'foundation.*.js');
+
+    return files.filter(file =>
+      !file.includes('foundation.util.') &&
+      !file.includes('foundation.core.') &&
+      !file.includes('foundation.js')
+    );
+  }
+
+  /**
+   * Index one section of the repository. Files are parsed concurrently on
+   * the parse pool and merged in path order, so the index does not depend
+   * on which parse finishes first. A file that fails to parse is recorded
+   * and skipped.
+   */
+  private async indexFiles<T extends SnapshotEntry>(
+    files: string[],
+    kind: SnapshotFileKind,
+    build: BuildState,
+    parse: FileParser<T>
+  ): Promise<T[]> {
+    throwIfCancelled(build.context, 'Index build');
+    const sorted = [...files].sort();
+
+    const loaded = await Promise.all(sorted.map(async file => {
       try {
-        const plugin = await this.parsePluginFile(file);
-        if (plugin) {
-          plugins.push(plugin);
-        }
+        return await this.loadFile(file, kind, build.previous, parse, build.context);
       } catch (error) {
+        if (error instanceof CancelledError) {
+          throw error;
+        }
         const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.warn(`Failed to parse plugin file: ${file}`, { error: errorMessage });
+        logger.warn(`Failed to parse ${kind} file: ${file}`, { error: errorMessage });
+        this.recordFailure(file, kind, errorMessage);
+        return null;
+      } finally {
+        build.tracker.step(`Parsed ${kind} ${path.basename(file)}`);
+      }
+    }));
+
+    const entries: T[] = [];
+    sorted.forEach((file, position) => {
+      const result = loaded[position];
+      if (!result) {
+        return;
+      }
+      build.files.set(path.relative(this.config.foundationRepoPath, file), result.record);
+      if (result.reused) {
+        build.reused++;
+      } else {
+        build.parsed++;
       }
+      if (result.record.entry) {
+        entries.push(result.record.entry as T);
+      }
+    });
+
+    return entries;
+  }
+
+  /**
+   * A file's snapshot record. The previous entry is reused when the file's
+   * mtime and size, or failing that its content hash, are unchanged;
+   * otherwise the file is parsed.
+   */
+  private async loadFile<T extends SnapshotEntry>(
+    filePath: string,
+    kind: SnapshotFileKind,
+    previous: Record<string, SnapshotFile>,
+    parse: FileParser<T>,
+    context?: OperationContext
+  ): Promise<{ record: SnapshotFile; reused: boolean }> {
+    const relativePath = path.relative(this.config.foundationRepoPath, filePath);
+    const { mtimeMs, size } = await getFileStats(filePath);
+    const known = previous[relativePath]?.kind === kind ? previous[relativePath] : undefined;
+
+    if (known && known.mtimeMs === mtimeMs && known.size === size) {
+      return { record: known, reused: true };
+    }
+
+    const content = await readFile(filePath);
+    const hash = hashContent(content);
+    if (known && known.hash === hash) {
+      return { record: { ...known, mtimeMs, size }, reused: true };
     }
 
-    return plugins;
+    const entry = await parse(filePath, content, context);
+    return { record: { kind, hash, mtimeMs, size, entry }, reused: false };
   }
 
   /**
    * Parse individual plugin file
    */
-  private async parsePluginFile(filePath: string): Promise<FoundationPlugin | null> {
-    const content = await readFile(filePath);
-    const parsed = await parsePlugin(content);
+  private async parsePluginFile(
+    filePath: string,
+    content: string,
+    context?: OperationContext
+  ): Promise<FoundationPlugin | null> {
+    const parsed = await this.parsePool.parsePlugin(content, {
+      label: filePath,
+      signal: context?.signal,
+    });
 
     if (!parsed.className) {
       return null;
@@ -124,39 +561,25 @@ export class CodebaseIndexer {
       supportsNesting,
       deprecatedInVersion: null,
       docs: `https://get.foundation/sites/docs/${slug}.html`,
+      docsPage: null,
+      options: parsed.options,
+      methods: parsed.publicMethods,
+      events: parsed.firedEvents,
     };
   }
 
-  /**
-   * Index all components
-   */
-  private async indexComponents(): Promise<FoundationComponent[]> {
-    const scssDir = joinPath(this.config.foundationRepoPath, 'scss/components');
-    const componentFiles = await findFiles(scssDir, '*.scss');
-
-    const components: FoundationComponent[] = [];
-
-    for (const file of componentFiles) {
-      try {
-        const component = await this.parseComponentFile(file);
-        if (component) {
-          components.push(component);
-        }
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.warn(`Failed to parse component file: ${file}`, { error: errorMessage });
-      }
-    }
-
-    return components;
-  }
-
   /**
    * Parse individual component file
    */
-  private async parseComponentFile(filePath: string): Promise<FoundationComponent | null> {
-    const content = await readFile(filePath);
-    const parsed = await parseComponent(content);
+  private async parseComponentFile(
+    filePath: string,
+    content: string,
+    context?: OperationContext
+  ): Promise<FoundationComponent | null> {
+    const parsed = await this.parsePool.parseComponent(content, {
+      label: filePath,
+      signal: context?.signal,
+    });
 
     const filename = path.basename(filePath, '.scss');
     // Remove leading underscore for slug
@@ -177,38 +600,178 @@ export class CodebaseIndexer {
       mixins: parsed.mixins.map((m: any) => m.name),
       cssClasses: parsed.classes,
       docs: `https://get.foundation/sites/docs/${slug}.html`,
+      docsPage: null,
+      settings: parsed.settings.filter(variable => variable.isDefault),
     };
   }
 
   /**
-   * Index all utilities
+   * Parse the settings file
    */
-  private async indexUtilities(): Promise<FoundationUtility[]> {
-    const jsDir = joinPath(this.config.foundationRepoPath, 'js');
-    const utilityFiles = await findFiles(jsDir, 'foundation.util.*.js');
+  private async parseSettingsFile(
+    filePath: string,
+    content: string,
+    context?: OperationContext
+  ): Promise<FoundationSettingsFile> {
+    const parsed = await this.parsePool.parseComponent(content, {
+      label: filePath,
+      signal: context?.signal,
+    });
+
+    return {
+      path: path.relative(this.config.foundationRepoPath, filePath),
+      variables: parsed.settings,
+    };
+  }
 
-    const utilities: FoundationUtility[] = [];
+  /**
+   * Merge the settings file with the components' `!default` variables. The
+   * settings file gives the order and sections; a component declaring a
+   * variable owns it and supplies its default and SassDoc.
+   */
+  private buildSettingsCatalog(
+    components: FoundationComponent[],
+    settingsFile: FoundationSettingsFile | null
+  ): FoundationSetting[] {
+    const catalog = new Map<string, FoundationSetting>();
+    const slugs = new Set(components.map(component => component.slug));
 
-    for (const file of utilityFiles) {
-      try {
-        const utility = await this.parseUtilityFile(file);
-        if (utility) {
-          utilities.push(utility);
-        }
-      } catch (error) {
-        logger.warn(`Failed to parse utility file: ${file}`, error);
+    for (const variable of settingsFile?.variables ?? []) {
+      // Sections of the settings file are named after components
+      const sectionSlug = variable.section?.toLowerCase().replace(/\s+/g, '-') ?? null;
+      catalog.set(variable.name, {
+        name: variable.name,
+        default: variable.value,
+        type: variable.type,
+        description: variable.description,
+        component: sectionSlug && slugs.has(sectionSlug) ? sectionSlug : null,
+        section: variable.section,
+      });
+    }
+
+    for (const component of components) {
+      for (const variable of component.settings) {
+        const listed = catalog.get(variable.name);
+        catalog.set(variable.name, {
+          name: variable.name,
+          default: variable.value,
+          type: variable.type ?? listed?.type ?? null,
+          description: variable.description || listed?.description || '',
+          component: component.slug,
+          section: listed?.section ?? null,
+        });
       }
     }
 
-    return utilities;
+    return [...catalog.values()];
+  }
+
+  /**
+   * Parse a `scss/util` file into its functions and mixins
+   */
+  private async parseSassFile(
+    filePath: string,
+    content: string,
+    context?: OperationContext
+  ): Promise<FoundationSassFile> {
+    const parsed = await this.parsePool.parseComponent(content, {
+      label: filePath,
+      signal: context?.signal,
+    });
+    const relativePath = path.relative(this.config.foundationRepoPath, filePath);
+
+    return {
+      path: relativePath,
+      callables: parsed.callables.map(callable => ({ ...callable, file: relativePath })),
+    };
+  }
+
+  /**
+   * Index entries of the snapshot records of one kind, in path order
+   */
+  private snapshotEntries<T extends SnapshotEntry>(kind: SnapshotFileKind): T[] {
+    return [...this.snapshotFiles.entries()]
+      .filter(([, record]) => record.kind === kind && record.entry)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, record]) => record.entry as T);
+  }
+
+  /**
+   * Parse a docs page; it is linked to plugins and components once they
+   * are indexed
+   */
+  private async parseDocsFile(
+    filePath: string,
+    content: string,
+    context?: OperationContext
+  ): Promise<FoundationDocPage> {
+    const parsed = await this.parsePool.parseDocPage(content, {
+      label: filePath,
+      signal: context?.signal,
+    });
+    const slug = path.basename(filePath, '.md');
+
+    return {
+      ...parsed,
+      slug,
+      path: path.relative(this.config.foundationRepoPath, filePath),
+      title: parsed.frontMatter.title ?? slug
+        .split('-')
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' '),
+      url: `https://get.foundation/sites/docs/${slug}.html`,
+      plugins: [],
+      components: [],
+    };
+  }
+
+  /**
+   * Link docs pages to the plugins and components they document, by the
+   * source paths in their front-matter or else by slug, and point those
+   * entries at their page. A page named after the entry wins when several
+   * pages list it.
+   */
+  private linkDocPages(index: FoundationIndex, pages: FoundationDocPage[]): void {
+    index.docs = pages.map(page => {
+      const js = new Set(page.frontMatter.js.map(file => path.normalize(file)));
+      const sass = new Set(page.frontMatter.sass.map(file => path.normalize(file)));
+      return {
+        ...page,
+        plugins: index.plugins
+          .filter(plugin => js.has(path.normalize(plugin.path)) || toKebabCase(plugin.slug) === page.slug)
+          .map(plugin => plugin.slug),
+        components: index.components
+          .filter(component => sass.has(path.normalize(component.scssPath)) || component.slug === page.slug)
+          .map(component => component.slug),
+      };
+    });
+
+    const pageFor = (slug: string, linked: (page: FoundationDocPage) => string[]) => {
+      const pages = index.docs.filter(page => linked(page).includes(slug));
+      return pages.find(page => page.slug === toKebabCase(slug)) ?? pages[0];
+    };
+    index.plugins = index.plugins.map(plugin => {
+      const page = pageFor(plugin.slug, candidate => candidate.plugins);
+      return { ...plugin, docsPage: page?.slug ?? null, docs: page?.url ?? plugin.docs };
+    });
+    index.components = index.components.map(component => {
+      const page = pageFor(component.slug, candidate => candidate.components);
+      return { ...component, docsPage: page?.slug ?? null, docs: page?.url ?? component.docs };
+    });
   }
 
   /**
    * Parse individual utility file
    */
-  private async parseUtilityFile(filePath: string): Promise<FoundationUtility | null> {
-    const content = await readFile(filePath);
-    const parsed = await parsePlugin(content);
+  private async parseUtilityFile(
+    filePath: string,
+    content: string,
+    context?: OperationContext
+  ): Promise<FoundationUtility | null> {
+    const parsed = await this.parsePool.parsePlugin(content, {
+      label: filePath,
+      signal: context?.signal,
+    });
 
     const filename = path.basename(filePath, '.js');
     const slug = filename.replace('foundation.util.', '');
@@ -229,27 +792,360 @@ export class CodebaseIndexer {
   }
 
   /**
-   * Index grid systems
+   * Parse a grid source file into its mixins, variables and classes
+   */
+  private async parseGridFile(
+    filePath: string,
+    content: string,
+    context?: OperationContext
+  ): Promise<FoundationGridFile> {
+    const parsed = await this.parsePool.parseComponent(content, {
+      label: filePath,
+      signal: context?.signal,
+    });
+    const relativePath = path.relative(this.config.foundationRepoPath, filePath);
+
+    return {
+      path: relativePath,
+      mixins: parsed.callables
+        .filter(callable => callable.kind === 'mixin')
+        .map(callable => ({ ...callable, file: relativePath })),
+      variables: parsed.settings.filter(variable => variable.isDefault),
+      classes: parsed.classPatterns,
+    };
+  }
+
+  /**
+   * Group grid source files by grid system. Breakpoints come from the
+   * `$breakpoints` and `$breakpoint-classes` settings; class examples fill
+   * `{breakpoint}` with each breakpoint that has classes and `{n}` with
+   * half the column count.
+   */
+  private buildGrids(files: FoundationGridFile[], settings: FoundationSetting[]): FoundationGrid[] {
+    const setting = (name: string, fallback: string) =>
+      settings.find(entry => entry.name === name)?.default ?? fallback;
+    const classBreakpoints = setting('$breakpoint-classes', DEFAULT_BREAKPOINT_CLASSES)
+      .replace(/^\(|\)$/g, '')
+      .split(/[\s,]+/)
+      .filter(Boolean);
+    const breakpoints: GridBreakpoint[] = setting('$breakpoints', DEFAULT_BREAKPOINTS)
+      .replace(/^\(|\)$/g, '')
+      .split(',')
+      .map(entry => entry.split(':').map(part => part.trim().replace(/^['"]|['"]$/g, '')))
+      .filter(([name, minWidth]) => name && minWidth)
+      .map(([name, minWidth]) => ({ name, minWidth, hasClasses: classBreakpoints.includes(name) }));
+
+    return GRID_SYSTEMS.map(grid => {
+      const sources = files.filter(file => file.path.split(path.sep).join('/').startsWith(grid.scssPath));
+      const variables = sources.flatMap(file => file.variables);
+      const columnCount = variables.find(variable => /^\$grid-column(s|-count)$/.test(variable.name));
+      const columns = Number.parseInt(columnCount?.value ?? '', 10) || 12;
+
+      const classes = new Map<string, GridClassPattern>();
+      for (const pattern of sources.flatMap(file => file.classes)) {
+        const known = classes.get(pattern.pattern);
+        if (known) {
+          known.responsive = known.responsive || pattern.responsive;
+          continue;
+        }
+        classes.set(pattern.pattern, {
+          ...pattern,
+          examples: this.gridClassExamples(pattern.pattern, breakpoints, columns),
+        });
+      }
+
+      return {
+        ...grid,
+        type: 'grid-system' as const,
+        columns,
+        mixins: sources.flatMap(file => file.mixins),
+        variables,
+        classes: [...classes.values()],
+        breakpoints,
+      };
+    });
+  }
+
+  /**
+   * Concrete class names for a pattern, or none when it has no placeholders
+   * or one other than `{breakpoint}` and `{n}`
+   */
+  private gridClassExamples(pattern: string, breakpoints: GridBreakpoint[], columns: number): string[] {
+    const placeholders = pattern.match(/\{\w+\}/g) ?? [];
+    if (placeholders.length === 0 || placeholders.some(placeholder => placeholder !== '{breakpoint}' && placeholder !== '{n}')) {
+      return [];
+    }
+
+    const sized = pattern.replace(/\{n\}/g, String(Math.ceil(columns / 2)));
+    return sized.includes('{breakpoint}')
+      ? breakpoints.filter(breakpoint => breakpoint.hasClasses).map(breakpoint => sized.replace(/\{breakpoint\}/g, breakpoint.name))
+      : [sized];
+  }
+
+  /**
+   * Re-parse only the given files and patch the cached index.
+   * Deleted files are removed from the index.
+   */
+  async reindexFiles(filePaths: string[]): Promise<IndexChangeSet> {
+    const changes: IndexChangeSet = {
+      plugins: [],
+      components: [],
+      utilities: [],
+      docs: [],
+      settings: [],
+      sassApi: [],
+      grids: [],
+    };
+    let current = await this.buildIndex();
+    // An index from the cache comes without the files behind it, and the
+    // catalogs below are rebuilt from those; index the checkout once first
+    if (this.snapshotFiles.size === 0) {
+      await this.invalidateCache();
+      current = await this.buildIndex();
+    }
+    const index: FoundationIndex = {
+      ...current,
+      plugins: [...current.plugins],
+      components: [...current.components],
+      utilities: [...current.utilities],
+    };
+
+    for (const filePath of filePaths) {
+      const kind = this.classifyFile(filePath);
+      if (!kind) {
+        continue;
+      }
+
+      const relativePath = path.relative(this.config.foundationRepoPath, filePath);
+
+      try {
+        switch (kind) {
+          case 'plugin': {
+            const plugin = await this.reloadFile(filePath, kind, (file, content) => this.parsePluginFile(file, content));
+            this.replaceEntry(index.plugins, p => p.path === relativePath, plugin);
+            changes.plugins.push(path.basename(filePath, '.js').replace('foundation.', ''));
+            break;
+          }
+
+          case 'component': {
+            const component = await this.reloadFile(filePath, kind, (file, content) => this.parseComponentFile(file, content));
+            this.replaceEntry(index.components, c => c.scssPath === relativePath, component);
+            changes.components.push(path.basename(filePath, '.scss').replace(/^_/, ''));
+            break;
+          }
+
+          case 'utility': {
+            const utility = await this.reloadFile(filePath, kind, (file, content) => this.parseUtilityFile(file, content));
+            this.replaceEntry(index.utilities, u => u.path === relativePath, utility);
+            changes.utilities.push(path.basename(filePath, '.js').replace('foundation.util.', ''));
+            break;
+          }
+
+          case 'settings':
+            await this.reloadFile(filePath, kind, (file, content) => this.parseSettingsFile(file, content));
+            changes.settings.push('settings');
+            break;
+
+          case 'sass':
+            await this.reloadFile(filePath, kind, (file, content) => this.parseSassFile(file, content));
+            changes.sassApi.push(path.basename(filePath, '.scss').replace(/^_/, ''));
+            break;
+
+          case 'grid': {
+            await this.reloadFile(filePath, kind, (file, content) => this.parseGridFile(file, content));
+            const relativeDirectory = `${path.dirname(relativePath).split(path.sep).join('/')}/`;
+            const grid = GRID_SYSTEMS.find(system => system.scssPath === relativeDirectory);
+            if (grid && !changes.grids.includes(grid.slug)) {
+              changes.grids.push(grid.slug);
+            }
+            break;
+          }
+
+          case 'docs':
+            await this.reloadFile(filePath, kind, (file, content) => this.parseDocsFile(file, content));
+            changes.docs.push(path.basename(filePath, '.md'));
+            break;
+        }
+        this.failures.delete(relativePath);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.warn(`Failed to re-index file: ${filePath}`, { error: errorMessage });
+        this.recordFailure(filePath, kind, errorMessage);
+      }
+    }
+
+    if (changes.plugins.length > 0 || changes.components.length > 0 || changes.docs.length > 0) {
+      this.linkDocPages(index, this.snapshotEntries<FoundationDocPage>('docs'));
+    }
+    if (changes.components.length > 0 && changes.settings.length === 0) {
+      changes.settings.push('settings');
+    }
+    if (changes.settings.length > 0) {
+      const settingsFile = this.snapshotFiles.get(path.normalize(SETTINGS_FILE))?.entry as FoundationSettingsFile | null | undefined;
+      index.settings = this.buildSettingsCatalog(index.components, settingsFile ?? null);
+    }
+    if (changes.sassApi.length > 0) {
+      index.sassApi = this.snapshotEntries<FoundationSassFile>('sass').flatMap(file => file.callables);
+    }
+    // Breakpoints come from the settings catalog
+    if (changes.grids.length > 0 || changes.settings.length > 0) {
+      index.grids = this.buildGrids(this.snapshotEntries<FoundationGridFile>('grid'), index.settings);
+    }
+
+    await this.storeIndex(index);
+    await this.snapshots?.save(this.snapshotFiles);
+    logger.info(`Re-indexed ${filePaths.length} changed file(s)`, changes);
+
+    return changes;
+  }
+
+  /**
+   * Parse a changed file and update its snapshot record; null when the
+   * file was deleted
+   */
+  private async reloadFile<T extends SnapshotEntry>(
+    filePath: string,
+    kind: SnapshotFileKind,
+    parse: FileParser<T>
+  ): Promise<T | null> {
+    const relativePath = path.relative(this.config.foundationRepoPath, filePath);
+
+    if (!(await fileExists(filePath))) {
+      this.snapshotFiles.delete(relativePath);
+      return null;
+    }
+
+    const { record } = await this.loadFile(filePath, kind, {}, parse);
+    this.snapshotFiles.set(relativePath, record);
+    return record.entry as T | null;
+  }
+
+  /**
+   * Build time, entry counts and parse failures of the index
+   */
+  getStats(): IndexStats {
+    return {
+      ...this.stats,
+      failedFiles: [...this.failures.values()],
+    };
+  }
+
+  /**
+   * Cache the index and record its size
    */
-  private async indexGrids(): Promise<FoundationGrid[]> {
-    const grids: FoundationGrid[] = [
-      {
-        name: 'XY Grid',
-        slug: 'xy-grid',
-        type: 'grid-system',
-        scssPath: 'scss/xy-grid/',
-        description: 'Modern CSS Grid and Flexbox-based layout system',
+  private async storeIndex(index: FoundationIndex): Promise<void> {
+    await this.cache.set(CacheKeys.pluginIndex(), index);
+    this.stats.updatedAt = new Date().toISOString();
+    this.stats.counts = {
+      plugins: index.plugins.length,
+      components: index.components.length,
+      utilities: index.utilities.length,
+      grids: index.grids.length,
+      settings: index.settings.length,
+      sassApi: index.sassApi.length,
+      docs: index.docs.length,
+    };
+  }
+
+  /**
+   * Remember a file that failed to parse, keyed by its repository path
+   */
+  private recordFailure(filePath: string, kind: IndexFailure['kind'], error: string): void {
+    const relativePath = path.relative(this.config.foundationRepoPath, filePath);
+    this.failures.set(relativePath, { path: relativePath, kind, error });
+  }
+
+  /**
+   * Replace an entry in place, append it if new, or remove it when null
+   */
+  private replaceEntry<T>(list: T[], matches: (entry: T) => boolean, entry: T | null): void {
+    const position = list.findIndex(matches);
+
+    if (position === -1) {
+      if (entry) {
+        list.push(entry);
+      }
+    } else if (entry) {
+      list[position] = entry;
+    } else {
+      list.splice(position, 1);
+    }
+  }
+
+  /**
+   * Work out which index section a repository file belongs to
+   */
+  private classifyFile(filePath: string): IndexedFileKind | null {
+    const relativePath = path.relative(this.config.foundationRepoPath, filePath).split(path.sep).join('/');
+    const filename = path.basename(filePath);
+
+    if (/^js\/foundation\.util\.[^/]+\.js$/.test(relativePath)) {
+      return 'utility';
+    }
+
+    if (/^js\/foundation\.[^/]+\.js$/.test(relativePath)) {
+      return filename.startsWith('foundation.core.') || filename === 'foundation.js'
+        ? null
+        : 'plugin';
+    }
+
+    if (/^scss\/components\/[^/]+\.scss$/.test(relativePath)) {
+      return 'component';
+    }
+
+    if (relativePath === SETTINGS_FILE) {
+      return 'settings';
+    }
+
+    if (/^scss\/util\/[^/]+\.scss$/.test(relativePath)) {
+      return 'sass';
+    }
+
+    if (/^scss\/(xy-grid|grid)\/[^/]+\.scss$/.test(relativePath)) {
+      return 'grid';
+    }
+
+    if (/^docs\/pages\/[^/]+\.md$/.test(relativePath)) {
+      return 'docs';
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the plugin architecture guide
+   */
+  getPluginArchitecture(): Omit<PluginArchitecture, 'registrationProcess'> {
+    return {
+      baseClass: 'Plugin',
+      baseClassPath: 'js/foundation.core.plugin.js',
+      lifecycle: {
+        constructor: {
+          description: 'Called when plugin instance is created',
+          parameters: ['element', 'options'],
+        },
+        _init: {
+          description: 'Initialize the plugin',
+          hooks: ['_addEventListeners', '_bindEvents'],
+        },
+        _destroy: {
+          description: 'Clean up when plugin is destroyed',
+          responsibilities: ['Remove event listeners', 'Clean up DOM', 'Reset state'],
+        },
       },
-      {
-        name: 'Float Grid',
-        slug: 'float-grid',
-        type: 'grid-system',
-        scssPath: 'scss/grid/',
-        description: 'Classic float-based grid system',
+      patterns: {
+        eventHandling: {
+          description: 'How to add event handlers',
+          example: "this.$element.on('click.zf.plugin', handler);",
+        },
+        dataAttributes: {
+          description: 'Using data attributes for configuration',
+          example: '[data-plugin][data-options="option: value;"]',
+        },
       },
-    ];
-
-    return grids;
+      requiredMethods: ['_init', '_destroy'],
+      optionalPatterns: ['_addEventListeners', '_setupKeyboard'],
+    };
   }
 
   /**
@@ -0,0 +1,137 @@
+/**
+ * On-disk snapshot of a workspace index, so restarts only re-parse changed files
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  FoundationComponent,
+  FoundationDocPage,
+  FoundationGridFile,
+  FoundationPlugin,
+  FoundationSassFile,
+  FoundationSettingsFile,
+  FoundationUtility,
+  ServerConfig,
+} from '../types.js';
+import { fileExists, readFile } from '../utils/fileSystem.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Bump when index entries change shape or are parsed differently, so old
+ * snapshots are discarded instead of served
+ */
+export const SNAPSHOT_FORMAT = 7;
+
+export type SnapshotFileKind = 'plugin' | 'component' | 'utility' | 'settings' | 'sass' | 'grid' | 'docs';
+
+export type SnapshotEntry =
+  | FoundationPlugin
+  | FoundationComponent
+  | FoundationUtility
+  | FoundationSettingsFile
+  | FoundationSassFile
+  | FoundationGridFile
+  | FoundationDocPage;
+
+/**
+ * A source file as it was when its index entry was parsed
+ */
+export interface SnapshotFile {
+  kind: SnapshotFileKind;
+  /** sha256 of the file content */
+  hash: string;
+  mtimeMs: number;
+  size: number;
+  /** Index entry parsed from the file; null when the file has none */
+  entry: SnapshotEntry | null;
+}
+
+export interface IndexSnapshot {
+  format: number;
+  repoPath: string;
+  version: string;
+  savedAt: string;
+  /** Keyed by path relative to the repository */
+  files: Record<string, SnapshotFile>;
+}
+
+/**
+ * sha256 of file content
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+export class IndexSnapshotStore {
+  private repoPath: string;
+  private version: string;
+  readonly filePath: string;
+
+  constructor(config: ServerConfig['snapshot'], repoPath: string, version: string) {
+    this.repoPath = path.resolve(repoPath);
+    this.version = version;
+
+    const key = hashContent(`${this.repoPath}\0${version}`).slice(0, 16);
+    this.filePath = path.join(path.resolve(config.directory), `index-${key}.json`);
+  }
+
+  /**
+   * The saved snapshot, or null when there is none or it does not belong to
+   * this checkout and format
+   */
+  async load(): Promise<IndexSnapshot | null> {
+    if (!(await fileExists(this.filePath))) {
+      return null;
+    }
+
+    try {
+      const snapshot = JSON.parse(await readFile(this.filePath)) as IndexSnapshot;
+      if (
+        snapshot.format !== SNAPSHOT_FORMAT ||
+        snapshot.repoPath !== this.repoPath ||
+        snapshot.version !== this.version ||
+        typeof snapshot.files !== 'object'
+      ) {
+        logger.info('Discarding index snapshot from another format or checkout', { path: this.filePath });
+        return null;
+      }
+      return snapshot;
+    } catch (error) {
+      logger.warn('Ignoring unreadable index snapshot', { path: this.filePath, error: String(error) });
+      return null;
+    }
+  }
+
+  /**
+   * Replace the snapshot. Written to a temporary file and renamed, so a
+   * crash never leaves a truncated snapshot; failures are logged only.
+   */
+  async save(files: Map<string, SnapshotFile>): Promise<void> {
+    const snapshot: IndexSnapshot = {
+      format: SNAPSHOT_FORMAT,
+      repoPath: this.repoPath,
+      version: this.version,
+      savedAt: new Date().toISOString(),
+      files: Object.fromEntries([...files.entries()].sort(([a], [b]) => a.localeCompare(b))),
+    };
+
+    const temporaryPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(temporaryPath, JSON.stringify(snapshot), 'utf-8');
+      await fs.rename(temporaryPath, this.filePath);
+    } catch (error) {
+      logger.warn('Failed to save index snapshot', { path: this.filePath, error: String(error) });
+      await fs.rm(temporaryPath, { force: true });
+    }
+  }
+
+  /**
+   * Delete the snapshot
+   */
+  async clear(): Promise<void> {
+    await fs.rm(this.filePath, { force: true });
+  }
+}
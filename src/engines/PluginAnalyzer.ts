@@ -5,38 +5,74 @@
 import {
   AnalyzePatternParams,
   AnalyzePatternResult,
+  AnalyzerRule,
+  ParsedPlugin,
   ValidationIssue,
-
+  OperationContext,
+  CancelledError,
+  ValidationError,
 } from '../types.js';
-import { parsePlugin } from '../utils/parser.js';
-import { readFile, fileExists } from '../utils/fileSystem.js';
 import { logger } from '../utils/logger.js';
+import { ParsePool } from '../utils/parsePool.js';
+import { ProgressTracker, throwIfCancelled } from '../utils/progress.js';
+
+/**
+ * Source to analyze and the pattern it should follow
+ */
+export interface AnalyzeSourceParams {
+  code: string;
+  patternType: AnalyzePatternParams['patternType'];
+}
+
+interface PluginAnalysis {
+  result: AnalyzePatternResult;
+  parsed: ParsedPlugin | null;
+}
 
 export class PluginAnalyzer {
+  private parsePool: ParsePool;
+  private rules: AnalyzerRule[] = [];
 
-  constructor() {
+  constructor(
+    parsePool = new ParsePool({ maxConcurrentOperations: 1, parseWorkers: 0, workerMinInputBytes: 0 })
+  ) {
+    this.parsePool = parsePool;
+  }
 
+  /**
+   * Add a rule that runs after the built-in checks
+   */
+  addRule(rule: AnalyzerRule): void {
+    if (this.rules.some(existing => existing.id === rule.id)) {
+      throw new ValidationError(`Analyzer rule already registered: ${rule.id}`, { rule: rule.id });
+    }
+    this.rules.push(rule);
   }
 
   /**
-   * Analyze code pattern
+   * Analyze code pattern. Takes source code only; tools read `path`
+   * inputs through the session's sandboxed file access.
    */
-  async analyzePattern(params: AnalyzePatternParams): Promise<AnalyzePatternResult> {
+  async analyzePattern(
+    params: AnalyzeSourceParams,
+    context?: OperationContext
+  ): Promise<AnalyzePatternResult> {
     logger.debug('Analyzing pattern', { type: params.patternType });
 
-    let code = params.code;
-
-    // If it's a file path, read the file
-    if (await fileExists(params.code)) {
-      code = await readFile(params.code);
-    }
+    const { code } = params;
+    const tracker = new ProgressTracker(1, context);
+    tracker.phase('Analyzing source');
+    throwIfCancelled(context, 'Pattern analysis');
 
     if (params.patternType === 'plugin') {
-      return this.analyzePluginPattern(code);
+      const { result, parsed } = await this.analyzePluginPattern(code, context);
+      await this.applyRules(result, code, parsed, params.patternType);
+      tracker.step('Plugin pattern analyzed');
+      return result;
     }
 
     // For other types, return basic analysis
-    return {
+    const result: AnalyzePatternResult = {
       matches: 'no-match',
       issues: [],
       conformance: {
@@ -46,19 +82,57 @@ export class PluginAnalyzer {
       },
       suggestions: ['Analysis for this pattern type is not yet implemented'],
     };
+    await this.applyRules(result, code, null, params.patternType);
+    tracker.step('Pattern analyzed');
+
+    return result;
+  }
+
+  /**
+   * Run registered rules and merge their issues into the result. A rule
+   * error caps the match at partial; a failing rule is skipped.
+   */
+  private async applyRules(
+    result: AnalyzePatternResult,
+    code: string,
+    parsed: ParsedPlugin | null,
+    patternType: AnalyzePatternParams['patternType']
+  ): Promise<void> {
+    for (const rule of this.rules) {
+      if (rule.patternTypes && !rule.patternTypes.includes(patternType)) {
+        continue;
+      }
+
+      try {
+        result.issues.push(...await rule.check(code, parsed));
+      } catch (error) {
+        logger.warn('Analyzer rule failed', { rule: rule.id, error: String(error) });
+      }
+    }
+
+    if (result.matches === 'matches' && result.issues.some(issue => issue.severity === 'error')) {
+      result.matches = 'partial-match';
+    }
   }
 
   /**
    * Analyze plugin pattern
    */
-  private async analyzePluginPattern(code: string): Promise<AnalyzePatternResult> {
+  private async analyzePluginPattern(
+    code: string,
+    context?: OperationContext
+  ): Promise<PluginAnalysis> {
     const issues: ValidationIssue[] = [];
     let architectureScore = 0;
     let conventionsScore = 0;
     let accessibilityScore = 0;
 
     try {
-      const parsed = await parsePlugin(code);
+      const parsed = await this.parsePool.parsePlugin(code, {
+        label: 'analyze_pattern',
+        signal: context?.signal,
+        largeInputsOnly: true,
+      });
 
       // Check if extends Plugin class
       if (parsed.extendsClass === 'Plugin') {
@@ -187,32 +261,41 @@ export class PluginAnalyzer {
       }
 
       return {
-        matches,
-        issues,
-        conformance: {
-          architecture: architectureScore,
-          conventions: conventionsScore,
-          accessibility: accessibilityScore,
+        result: {
+          matches,
+          issues,
+          conformance: {
+            architecture: architectureScore,
+            conventions: conventionsScore,
+            accessibility: accessibilityScore,
+          },
+          suggestions,
         },
-        suggestions,
+        parsed,
       };
     } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error;
+      }
       logger.error('Failed to analyze plugin pattern', error);
       return {
-        matches: 'no-match',
-        issues: [
-          {
-            severity: 'error',
-            message: 'Failed to parse code',
-            suggestion: 'Ensure code is valid JavaScript',
+        result: {
+          matches: 'no-match',
+          issues: [
+            {
+              severity: 'error',
+              message: 'Failed to parse code',
+              suggestion: 'Ensure code is valid JavaScript',
+            },
+          ],
+          conformance: {
+            architecture: 0,
+            conventions: 0,
+            accessibility: 0,
           },
-        ],
-        conformance: {
-          architecture: 0,
-          conventions: 0,
-          accessibility: 0,
+          suggestions: ['Fix syntax errors before analyzing'],
         },
-        suggestions: ['Fix syntax errors before analyzing'],
+        parsed: null,
       };
     }
   }
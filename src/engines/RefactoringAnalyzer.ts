@@ -7,10 +7,13 @@ import {
   CacheInterface,
   ParsedPlugin,
   ParsedComponent,
+  OperationContext,
+  CancelledError,
 } from '../types.js';
-import { parsePlugin, parseComponent } from '../utils/parser.js';
 import { CodebaseIndexer } from './CodebaseIndexer.js';
 import { logger } from '../utils/logger.js';
+import { ParsePool } from '../utils/parsePool.js';
+import { ProgressTracker, throwIfCancelled } from '../utils/progress.js';
 
 export interface RefactoringAnalysis {
   sourceType: 'custom-plugin' | 'custom-component';
@@ -33,10 +36,17 @@ export interface RefactoringAnalysis {
 
 export class RefactoringAnalyzer {
   private indexer: CodebaseIndexer;
-
-  constructor(_config: ServerConfig, _cache: CacheInterface, indexer: CodebaseIndexer) {
-    // _config and _cache reserved for future use
+  private parsePool: ParsePool;
+
+  constructor(
+    config: ServerConfig,
+    _cache: CacheInterface,
+    indexer: CodebaseIndexer,
+    parsePool?: ParsePool
+  ) {
+    // _cache reserved for future use
     this.indexer = indexer;
+    this.parsePool = parsePool ?? new ParsePool(config.performance);
   }
 
   /**
@@ -45,14 +55,15 @@ export class RefactoringAnalyzer {
   async analyzeForRefactoring(
     sourceCode: string,
     sourceType: 'custom-plugin' | 'custom-component',
-    foundationTarget?: string
+    foundationTarget?: string,
+    context?: OperationContext
   ): Promise<RefactoringAnalysis> {
     logger.info('Analyzing code for Foundation refactoring', { sourceType });
 
     if (sourceType === 'custom-plugin') {
-      return this.analyzePluginForRefactoring(sourceCode, foundationTarget);
+      return this.analyzePluginForRefactoring(sourceCode, foundationTarget, context);
     } else {
-      return this.analyzeComponentForRefactoring(sourceCode, foundationTarget);
+      return this.analyzeComponentForRefactoring(sourceCode, foundationTarget, context);
     }
   }
 
@@ -61,11 +72,24 @@ export class RefactoringAnalyzer {
    */
   private async analyzePluginForRefactoring(
     sourceCode: string,
-    foundationTarget?: string
+    foundationTarget?: string,
+    context?: OperationContext
   ): Promise<RefactoringAnalysis> {
+    const tracker = new ProgressTracker(3, context);
+
     try {
-      const parsed = await parsePlugin(sourceCode);
-      const index = await this.indexer.buildIndex();
+      tracker.phase('Parsing source');
+      const parsed = await this.parsePool.parsePlugin(sourceCode, {
+        label: 'refactor_to_foundation',
+        signal: context?.signal,
+        largeInputsOnly: true,
+      });
+      tracker.step('Loading Foundation index');
+
+      // Share cancellation only; index progress would skew this three-step count
+      const index = await this.indexer.buildIndex({ signal: context?.signal });
+      throwIfCancelled(context, 'Refactoring analysis');
+      tracker.step('Matching Foundation plugins');
 
       // Analyze plugin features
       const hasDropdown = this.hasFeature(sourceCode, ['dropdown', 'menu', 'select']);
@@ -97,6 +121,8 @@ export class RefactoringAnalyzer {
       // Generate integration guide
       const integrationGuide = this.generateIntegrationGuide('plugin', suggestions[0]);
 
+      tracker.step('Migration plan ready');
+
       return {
         sourceType: 'custom-plugin',
         suggestedFoundationComponents: suggestions,
@@ -107,6 +133,9 @@ export class RefactoringAnalyzer {
         integrationGuide,
       };
     } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error;
+      }
       logger.error('Failed to analyze plugin for refactoring', error);
       throw error;
     }
@@ -117,11 +146,24 @@ export class RefactoringAnalyzer {
    */
   private async analyzeComponentForRefactoring(
     sourceCode: string,
-    foundationTarget?: string
+    foundationTarget?: string,
+    context?: OperationContext
   ): Promise<RefactoringAnalysis> {
+    const tracker = new ProgressTracker(3, context);
+
     try {
-      const parsed = await parseComponent(sourceCode);
-      const index = await this.indexer.buildIndex();
+      tracker.phase('Parsing source');
+      const parsed = await this.parsePool.parseComponent(sourceCode, {
+        label: 'refactor_to_foundation',
+        signal: context?.signal,
+        largeInputsOnly: true,
+      });
+      tracker.step('Loading Foundation index');
+
+      // Share cancellation only; index progress would skew this three-step count
+      const index = await this.indexer.buildIndex({ signal: context?.signal });
+      throwIfCancelled(context, 'Refactoring analysis');
+      tracker.step('Matching Foundation components');
 
       // Analyze component features
       const hasButton = this.hasFeature(sourceCode, ['button', 'btn']);
@@ -153,6 +195,8 @@ export class RefactoringAnalyzer {
       // Generate integration guide
       const integrationGuide = this.generateIntegrationGuide('component', suggestions[0]);
 
+      tracker.step('Migration plan ready');
+
       return {
         sourceType: 'custom-component',
         suggestedFoundationComponents: suggestions,
@@ -163,6 +207,9 @@ export class RefactoringAnalyzer {
         integrationGuide,
       };
     } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error;
+      }
       logger.error('Failed to analyze component for refactoring', error);
       throw error;
     }
@@ -0,0 +1,104 @@
+/**
+ * Repository watcher that keeps the index in sync with local edits
+ */
+
+import chokidar, { FSWatcher } from 'chokidar';
+import { IndexChangeSet, ServerConfig } from '../types.js';
+import { joinPath } from '../utils/fileSystem.js';
+import { logger } from '../utils/logger.js';
+import { CodebaseIndexer } from './CodebaseIndexer.js';
+
+/**
+ * Directories of the Foundation repository that feed the index
+ */
+export const WATCHED_DIRECTORIES = ['js', 'scss', 'docs'];
+
+export type IndexChangeListener = (changes: IndexChangeSet) => void | Promise<void>;
+
+export class RepositoryWatcher {
+  private config: ServerConfig;
+  private indexer: CodebaseIndexer;
+  private onChange: IndexChangeListener;
+  private watcher: FSWatcher | null = null;
+  private pendingFiles = new Set<string>();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(config: ServerConfig, indexer: CodebaseIndexer, onChange: IndexChangeListener) {
+    this.config = config;
+    this.indexer = indexer;
+    this.onChange = onChange;
+  }
+
+  /**
+   * Start watching the repository
+   */
+  async start(): Promise<void> {
+    const paths = WATCHED_DIRECTORIES.map(dir => joinPath(this.config.foundationRepoPath, dir));
+
+    this.watcher = chokidar.watch(paths, {
+      ignoreInitial: true,
+      ignored: /(^|[/\\])(node_modules|\..+)([/\\]|$)/,
+    });
+
+    this.watcher
+      .on('add', filePath => this.queue(filePath))
+      .on('change', filePath => this.queue(filePath))
+      .on('unlink', filePath => this.queue(filePath))
+      .on('error', error => logger.error('Repository watcher error', error));
+
+    await new Promise<void>(resolve => this.watcher!.once('ready', () => resolve()));
+    logger.info('Watching Foundation repository for changes', { paths });
+  }
+
+  /**
+   * Stop watching and drop pending changes
+   */
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.pendingFiles.clear();
+
+    if (this.watcher) {
+      await this.watcher.close();
+      this.watcher = null;
+    }
+  }
+
+  /**
+   * Collect a changed file and re-index once edits settle
+   */
+  private queue(filePath: string): void {
+    this.pendingFiles.add(filePath);
+
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      // Serialize flushes so overlapping batches patch the index in order
+      this.flushing = this.flushing.then(() => this.flush());
+    }, this.config.watch.debounceMs);
+  }
+
+  /**
+   * Re-index every pending file and notify the listener
+   */
+  private async flush(): Promise<void> {
+    const files = [...this.pendingFiles];
+    this.pendingFiles.clear();
+
+    if (files.length === 0) {
+      return;
+    }
+
+    try {
+      const changes = await this.indexer.reindexFiles(files);
+      await this.onChange(changes);
+    } catch (error) {
+      logger.error('Failed to re-index changed files', error, { files });
+    }
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Workspace manager for serving several Foundation versions from one server
+ */
+
+import {
+  ServerConfig,
+  CacheInterface,
+  FoundationIndex,
+  WorkspaceConfig,
+  IndexNotReadyError,
+  NotFoundError,
+  OperationContext,
+  ValidationError,
+} from '../types.js';
+import { NamespacedCache } from '../utils/cache.js';
+import { fileExists, joinPath, readFile, resolvePath } from '../utils/fileSystem.js';
+import { logger } from '../utils/logger.js';
+import { ParsePool } from '../utils/parsePool.js';
+import { redactPath } from '../utils/redact.js';
+import { CodebaseIndexer } from './CodebaseIndexer.js';
+import { IndexSnapshotStore } from './IndexSnapshot.js';
+import { RefactoringAnalyzer } from './RefactoringAnalyzer.js';
+
+/**
+ * Label used when the primary checkout has no readable package.json
+ */
+const FALLBACK_VERSION = 'default';
+
+/**
+ * A Foundation checkout with its own index and cache namespace
+ */
+export interface FoundationWorkspace {
+  /** Label clients pass as the `version` argument */
+  version: string;
+  /** Version from package.json, if any */
+  packageVersion: string | null;
+  path: string;
+  isDefault: boolean;
+  config: ServerConfig;
+  cache: CacheInterface;
+  indexer: CodebaseIndexer;
+  refactoringAnalyzer: RefactoringAnalyzer;
+}
+
+/**
+ * Summary of a workspace for clients; the path is redacted
+ */
+export interface WorkspaceSummary {
+  version: string;
+  packageVersion: string | null;
+  path: string;
+  isDefault: boolean;
+}
+
+export class WorkspaceManager {
+  private config: ServerConfig;
+  private cache: CacheInterface;
+  private parsePool: ParsePool;
+  private initializing: Promise<FoundationWorkspace[]> | null = null;
+
+  constructor(config: ServerConfig, cache: CacheInterface, parsePool: ParsePool) {
+    this.config = config;
+    this.cache = cache;
+    this.parsePool = parsePool;
+  }
+
+  /**
+   * All workspaces, the primary checkout first
+   */
+  async list(): Promise<FoundationWorkspace[]> {
+    if (!this.initializing) {
+      this.initializing = this.initialize();
+    }
+    return this.initializing;
+  }
+
+  /**
+   * Find the workspace for a version label. An exact label wins, then the
+   * package.json version, then a unique release-line prefix ("6.7" → "6.7.5").
+   */
+  async resolve(version?: string): Promise<FoundationWorkspace> {
+    const workspaces = await this.list();
+
+    if (!version) {
+      return workspaces[0];
+    }
+
+    const exact = workspaces.find(w => w.version === version) ??
+      workspaces.find(w => w.packageVersion === version);
+    if (exact) {
+      return exact;
+    }
+
+    const prefixed = workspaces.filter(w =>
+      w.packageVersion?.startsWith(`${version}.`) || w.version.startsWith(`${version}.`)
+    );
+    if (prefixed.length === 1) {
+      return prefixed[0];
+    }
+
+    const available = workspaces.map(w => w.version);
+    if (prefixed.length > 1) {
+      throw new ValidationError(`Foundation version "${version}" is ambiguous`, {
+        version,
+        matches: prefixed.map(w => w.version),
+      });
+    }
+    throw new NotFoundError(`Foundation version not found: ${version}`, { version, available });
+  }
+
+  /**
+   * Wait for a workspace's index build, up to indexWaitMs (0 waits until
+   * it finishes). The caller receives the build's progress while it waits.
+   */
+  async waitForIndex(workspace: FoundationWorkspace, context?: OperationContext): Promise<FoundationIndex> {
+    const { indexWaitMs } = this.config.performance;
+    if (workspace.indexer.isReady() || indexWaitMs === 0) {
+      return workspace.indexer.buildIndex(context);
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<'timeout'>(resolve => {
+      timer = setTimeout(() => resolve('timeout'), indexWaitMs);
+    });
+
+    try {
+      const outcome = await Promise.race([workspace.indexer.buildIndex(context), timedOut]);
+      if (outcome !== 'timeout') {
+        return outcome;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const { state, progress } = workspace.indexer.getStats();
+    throw new IndexNotReadyError(`The Foundation ${workspace.version} index is still warming up`, {
+      version: workspace.version,
+      state,
+      progress,
+      retryAfterSeconds: 5,
+    });
+  }
+
+  /**
+   * Client-facing description of every workspace
+   */
+  async describe(): Promise<WorkspaceSummary[]> {
+    const workspaces = await this.list();
+    return workspaces.map(({ version, packageVersion, path, isDefault }) => ({
+      version,
+      packageVersion,
+      path: redactPath(path),
+      isDefault,
+    }));
+  }
+
+  /**
+   * Detect versions and create an indexer per workspace
+   */
+  private async initialize(): Promise<FoundationWorkspace[]> {
+    const configured: WorkspaceConfig[] = [
+      { path: this.config.foundationRepoPath },
+      ...this.config.workspaces,
+    ];
+
+    const workspaces: FoundationWorkspace[] = [];
+
+    for (const [position, entry] of configured.entries()) {
+      const path = resolvePath(entry.path);
+      const packageVersion = await this.detectVersion(path);
+      const version = entry.version ?? packageVersion ?? FALLBACK_VERSION;
+
+      if (workspaces.some(w => w.version === version)) {
+        throw new ValidationError(
+          `Duplicate Foundation version "${version}"; give each workspace a distinct label`,
+          { version, path }
+        );
+      }
+
+      workspaces.push(this.createWorkspace(path, version, packageVersion, position === 0));
+    }
+
+    logger.info('Foundation workspaces registered', {
+      versions: workspaces.map(w => w.version),
+    });
+
+    return workspaces;
+  }
+
+  /**
+   * Wire up the engines for one checkout
+   */
+  private createWorkspace(
+    path: string,
+    version: string,
+    packageVersion: string | null,
+    isDefault: boolean
+  ): FoundationWorkspace {
+    const config: ServerConfig = { ...this.config, foundationRepoPath: path };
+    const cache = new NamespacedCache(this.cache, `workspace:${version}`);
+    const snapshots = this.config.snapshot.enabled
+      ? new IndexSnapshotStore(this.config.snapshot, path, version)
+      : undefined;
+    const indexer = new CodebaseIndexer(config, cache, this.parsePool, snapshots);
+    const refactoringAnalyzer = new RefactoringAnalyzer(config, cache, indexer, this.parsePool);
+
+    return {
+      version,
+      packageVersion,
+      path,
+      isDefault,
+      config,
+      cache,
+      indexer,
+      refactoringAnalyzer,
+    };
+  }
+
+  /**
+   * Read the version from a checkout's or installed package's package.json
+   */
+  private async detectVersion(repoPath: string): Promise<string | null> {
+    const packagePath = joinPath(repoPath, 'package.json');
+
+    if (!(await fileExists(packagePath))) {
+      logger.warn('No package.json in Foundation workspace', { path: repoPath });
+      return null;
+    }
+
+    try {
+      const pkg = JSON.parse(await readFile(packagePath));
+      if (pkg.name !== 'foundation-sites') {
+        logger.warn('Workspace package is not foundation-sites', { path: repoPath, name: pkg.name });
+      }
+      return typeof pkg.version === 'string' ? pkg.version : null;
+    } catch (error) {
+      logger.warn('Failed to read workspace package.json', { path: repoPath, error: String(error) });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Extension loading for Foundation MCP Server
+ */
+
+import path from 'path';
+import { pathToFileURL } from 'url';
+import {
+  AnalyzerRule,
+  CacheInterface,
+  ComponentTemplate,
+  ExtensionError,
+  PluginTemplate,
+  ServerConfig,
+} from '../types.js';
+import type { CodebaseIndexer } from '../engines/CodebaseIndexer.js';
+import type { PluginAnalyzer } from '../engines/PluginAnalyzer.js';
+import type { FoundationWorkspace, WorkspaceManager } from '../engines/WorkspaceManager.js';
+import type { PluginGenerator } from '../generators/PluginGenerator.js';
+import type { ComponentGenerator } from '../generators/ComponentGenerator.js';
+import type { ResourceDefinition, ResourceHandler } from '../handlers/resources.js';
+import type { ToolDefinition, ToolRegistry } from '../tools/index.js';
+import { NamespacedCache } from '../utils/cache.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * What an extension can register and read during setup
+ */
+export interface ExtensionAPI {
+  readonly config: ServerConfig;
+  /** Shared server cache, namespaced to the extension */
+  readonly cache: CacheInterface;
+  /** Foundation checkout for a version; the primary checkout when omitted */
+  getWorkspace(version?: string): Promise<FoundationWorkspace>;
+  /** Shared indexer of a Foundation checkout */
+  getIndexer(version?: string): Promise<CodebaseIndexer>;
+  registerTool(tool: ToolDefinition): void;
+  registerResource(resource: ResourceDefinition): void;
+  registerAnalyzerRule(rule: AnalyzerRule): void;
+  registerPluginTemplate(template: PluginTemplate): void;
+  registerComponentTemplate(template: ComponentTemplate): void;
+}
+
+export interface FoundationExtension {
+  name: string;
+  setup(api: ExtensionAPI): void | Promise<void>;
+}
+
+/**
+ * Server parts extensions register against
+ */
+export interface ExtensionHost {
+  config: ServerConfig;
+  cache: CacheInterface;
+  workspaces: WorkspaceManager;
+  tools: ToolRegistry;
+  resources: ResourceHandler;
+  pluginAnalyzer: PluginAnalyzer;
+  pluginGenerator: PluginGenerator;
+  componentGenerator: ComponentGenerator;
+}
+
+export interface LoadedExtension {
+  name: string;
+  source: string;
+  tools: string[];
+  resources: string[];
+  analyzerRules: string[];
+  templates: string[];
+}
+
+/**
+ * Declare an extension with type checking
+ */
+export function defineExtension(extension: FoundationExtension): FoundationExtension {
+  return extension;
+}
+
+export class ExtensionLoader {
+  private host: ExtensionHost;
+  private loaded: LoadedExtension[] = [];
+
+  constructor(host: ExtensionHost) {
+    this.host = host;
+  }
+
+  /**
+   * Import and set up each configured extension module in order
+   */
+  async loadAll(specifiers: string[]): Promise<LoadedExtension[]> {
+    for (const specifier of specifiers) {
+      const extension = await this.importExtension(specifier);
+      await this.install(extension, specifier);
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Run an extension's setup against the server
+   */
+  async install(extension: FoundationExtension, source: string = extension.name): Promise<LoadedExtension> {
+    if (this.loaded.some(loaded => loaded.name === extension.name)) {
+      throw new ExtensionError(`Extension already loaded: ${extension.name}`, { extension: extension.name, source });
+    }
+
+    const record: LoadedExtension = {
+      name: extension.name,
+      source,
+      tools: [],
+      resources: [],
+      analyzerRules: [],
+      templates: [],
+    };
+
+    try {
+      await extension.setup(this.createApi(record));
+    } catch (error) {
+      if (error instanceof ExtensionError) {
+        throw error;
+      }
+      throw new ExtensionError(`Extension ${extension.name} failed to set up: ${(error as Error).message}`, {
+        extension: extension.name,
+        source,
+      });
+    }
+
+    this.loaded.push(record);
+    logger.info('Extension loaded', { ...record });
+    return record;
+  }
+
+  /**
+   * Extensions set up so far
+   */
+  list(): LoadedExtension[] {
+    return [...this.loaded];
+  }
+
+  /**
+   * API handed to one extension; records what it registers
+   */
+  private createApi(record: LoadedExtension): ExtensionAPI {
+    const { host } = this;
+
+    return {
+      config: host.config,
+      cache: new NamespacedCache(host.cache, `extension:${record.name}`),
+      getWorkspace: version => host.workspaces.resolve(version),
+      getIndexer: async version => (await host.workspaces.resolve(version)).indexer,
+      registerTool: tool => {
+        host.tools.register(tool);
+        record.tools.push(tool.name);
+      },
+      registerResource: resource => {
+        host.resources.registerResource(resource);
+        record.resources.push(resource.uri);
+      },
+      registerAnalyzerRule: rule => {
+        host.pluginAnalyzer.addRule(rule);
+        record.analyzerRules.push(rule.id);
+      },
+      registerPluginTemplate: template => {
+        host.pluginGenerator.registerTemplate(template);
+        record.templates.push(`plugin:${template.name}`);
+      },
+      registerComponentTemplate: template => {
+        host.componentGenerator.registerTemplate(template);
+        record.templates.push(`component:${template.name}`);
+      },
+    };
+  }
+
+  /**
+   * Import a module by path (relative to the working directory) or package
+   * name. It must export a FoundationExtension as default or `extension`.
+   */
+  private async importExtension(specifier: string): Promise<FoundationExtension> {
+    const isPath = specifier.startsWith('.') || path.isAbsolute(specifier);
+    const target = isPath ? pathToFileURL(path.resolve(specifier)).href : specifier;
+
+    let module: Record<string, unknown>;
+    try {
+      module = await import(target);
+    } catch (error) {
+      throw new ExtensionError(`Cannot load extension ${specifier}: ${(error as Error).message}`, {
+        source: specifier,
+      });
+    }
+
+    const extension = (module.default ?? module.extension) as Partial<FoundationExtension> | undefined;
+    if (!extension || typeof extension.name !== 'string' || typeof extension.setup !== 'function') {
+      throw new ExtensionError(
+        `Extension ${specifier} must export { name, setup } as default or "extension"`,
+        { source: specifier }
+      );
+    }
+
+    return extension as FoundationExtension;
+  }
+}
@@ -5,24 +5,54 @@
 import {
   GenerateComponentParams,
   GenerateComponentResult,
-
+  ComponentTemplate,
+  NotFoundError,
+  ValidationError,
 } from '../types.js';
 import { logger } from '../utils/logger.js';
 
 export class ComponentGenerator {
+  private templates = new Map<string, ComponentTemplate>();
 
   constructor() {
 
   }
 
+  /**
+   * Register a named template selectable with the `template` argument
+   */
+  registerTemplate(template: ComponentTemplate): void {
+    if (this.templates.has(template.name)) {
+      throw new ValidationError(`Component template already registered: ${template.name}`, {
+        template: template.name,
+      });
+    }
+    this.templates.set(template.name, template);
+  }
+
+  /**
+   * Registered templates
+   */
+  listTemplates(): ComponentTemplate[] {
+    return [...this.templates.values()];
+  }
+
   /**
    * Generate a new Foundation component
    */
   async generate(params: GenerateComponentParams): Promise<GenerateComponentResult> {
-    logger.info('Generating component', { name: params.name });
+    logger.info('Generating component', { name: params.name, template: params.template });
+
+    const template = params.template ? this.templates.get(params.template) : undefined;
+    if (params.template && !template) {
+      throw new NotFoundError(`Component template not found: ${params.template}`, {
+        template: params.template,
+        available: [...this.templates.keys()],
+      });
+    }
 
     try {
-      const files: GenerateComponentResult['files'] = {};
+      let files: GenerateComponentResult['files'] = {};
 
       // Generate component SCSS file
       files.component = {
@@ -46,7 +76,14 @@ export class ComponentGenerator {
         };
       }
 
-      const integrationSteps = this.getIntegrationSteps(params);
+      if (template) {
+        files = await template.render(params, files);
+      }
+
+      const integrationSteps = [
+        ...this.getIntegrationSteps(params),
+        ...(template?.integrationSteps ?? []),
+      ];
 
       return {
         status: 'success',
@@ -5,25 +5,54 @@
 import {
   GeneratePluginParams,
   GeneratePluginResult,
-
+  PluginTemplate,
+  NotFoundError,
+  ValidationError,
 } from '../types.js';
 import { logger } from '../utils/logger.js';
 
 export class PluginGenerator {
-
+  private templates = new Map<string, PluginTemplate>();
 
   constructor() {
 
   }
 
+  /**
+   * Register a named template selectable with the `template` argument
+   */
+  registerTemplate(template: PluginTemplate): void {
+    if (this.templates.has(template.name)) {
+      throw new ValidationError(`Plugin template already registered: ${template.name}`, {
+        template: template.name,
+      });
+    }
+    this.templates.set(template.name, template);
+  }
+
+  /**
+   * Registered templates
+   */
+  listTemplates(): PluginTemplate[] {
+    return [...this.templates.values()];
+  }
+
   /**
    * Generate a new Foundation plugin
    */
   async generate(params: GeneratePluginParams): Promise<GeneratePluginResult> {
-    logger.info('Generating plugin', { name: params.name });
+    logger.info('Generating plugin', { name: params.name, template: params.template });
+
+    const template = params.template ? this.templates.get(params.template) : undefined;
+    if (params.template && !template) {
+      throw new NotFoundError(`Plugin template not found: ${params.template}`, {
+        template: params.template,
+        available: [...this.templates.keys()],
+      });
+    }
 
     try {
-      const files: GeneratePluginResult['files'] = {};
+      let files: GeneratePluginResult['files'] = {};
 
       // Generate plugin file
       files.plugin = {
@@ -47,7 +76,14 @@ export class PluginGenerator {
         };
       }
 
-      const integrationSteps = this.getIntegrationSteps(params);
+      if (template) {
+        files = await template.render(params, files);
+      }
+
+      const integrationSteps = [
+        ...this.getIntegrationSteps(params),
+        ...(template?.integrationSteps ?? []),
+      ];
 
       return {
         status: 'success',
@@ -0,0 +1,168 @@
+/**
+ * Argument completion handlers for Foundation MCP Server
+ */
+
+import { z } from 'zod';
+import {
+  CompleteRequestSchema,
+  PromptReferenceSchema,
+  ResourceReferenceSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { FoundationIndex, IndexNotReadyError } from '../types.js';
+import { WorkspaceManager } from '../engines/WorkspaceManager.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Maximum number of values a completion result may carry
+ */
+const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * Non-standard reference so clients can complete tool arguments
+ * with the same request they use for prompts and resources.
+ * The MCP spec only defines ref/prompt and ref/resource; clients
+ * that never send ref/tool are unaffected.
+ */
+export const ToolReferenceSchema = z
+  .object({
+    type: z.literal('ref/tool'),
+    name: z.string(),
+  })
+  .passthrough();
+
+/**
+ * completion/complete request that also accepts tool references
+ */
+export const CompletionRequestSchema = CompleteRequestSchema.extend({
+  params: CompleteRequestSchema.shape.params.extend({
+    ref: z.union([PromptReferenceSchema, ResourceReferenceSchema, ToolReferenceSchema]),
+  }),
+});
+
+export type CompletionReference = z.infer<typeof CompletionRequestSchema>['params']['ref'];
+
+type SlugSource = 'plugins' | 'components' | 'all' | 'sassApi' | 'grids' | 'versions';
+
+/**
+ * Which index slugs complete each argument, keyed by reference then argument name
+ */
+const RESOURCE_COMPLETIONS: Record<string, Record<string, SlugSource>> = {
+  'foundation://plugins/{slug}/template': { slug: 'plugins' },
+  'foundation://plugins/{slug}/docs': { slug: 'plugins' },
+  'foundation://components/{slug}/template': { slug: 'components' },
+  'foundation://components/{slug}/docs': { slug: 'components' },
+};
+
+const PROMPT_COMPLETIONS: Record<string, Record<string, SlugSource>> = {
+  scaffold_plugin: { basedOn: 'plugins' },
+  audit_plugin_accessibility: { slug: 'plugins' },
+};
+
+const TOOL_COMPLETIONS: Record<string, Record<string, SlugSource>> = {
+  get_plugin_reference: { slug: 'plugins' },
+  get_component_reference: { slug: 'components' },
+  get_settings_reference: { component: 'components' },
+  get_sass_api_reference: { name: 'sassApi' },
+  get_grid_reference: { slug: 'grids' },
+  refactor_to_foundation: { foundationTarget: 'all' },
+};
+
+export class CompletionHandler {
+  private workspaces: WorkspaceManager;
+
+  constructor(workspaces: WorkspaceManager) {
+    this.workspaces = workspaces;
+  }
+
+  /**
+   * Complete an argument value for a prompt, resource template or tool
+   */
+  async complete(ref: CompletionReference, argument: { name: string; value: string }) {
+    logger.debug('Completing argument', { ref, argument: argument.name });
+
+    const source = this.findSource(ref, argument.name);
+    if (!source) {
+      return this.result([]);
+    }
+
+    if (source === 'versions') {
+      const workspaces = await this.workspaces.describe();
+      return this.result(this.matchSlugs(workspaces.map(w => w.version), argument.value));
+    }
+
+    // Completion requests carry no other arguments, so slugs come from the primary checkout
+    const workspace = await this.workspaces.resolve();
+    try {
+      const index = await this.workspaces.waitForIndex(workspace);
+      return this.result(this.matchSlugs(this.getSlugs(index, source), argument.value));
+    } catch (error) {
+      // Nothing to suggest until the index is built
+      if (error instanceof IndexNotReadyError) {
+        return this.result([]);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Look up which slugs complete the referenced argument
+   */
+  private findSource(ref: CompletionReference, argumentName: string): SlugSource | undefined {
+    // Every prompt and tool takes an optional Foundation version
+    if (argumentName === 'version' && ref.type !== 'ref/resource') {
+      return 'versions';
+    }
+
+    switch (ref.type) {
+      case 'ref/resource':
+        return RESOURCE_COMPLETIONS[ref.uri]?.[argumentName];
+
+      case 'ref/prompt':
+        return PROMPT_COMPLETIONS[ref.name]?.[argumentName];
+
+      case 'ref/tool':
+        return TOOL_COMPLETIONS[ref.name]?.[argumentName];
+
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Collect slugs from the index
+   */
+  private getSlugs(index: FoundationIndex, source: SlugSource): string[] {
+    if (source === 'sassApi') {
+      return [...new Set(index.sassApi.map(entry => entry.name))].sort();
+    }
+    if (source === 'grids') {
+      return index.grids.map(grid => grid.slug).sort();
+    }
+    const plugins = source !== 'components' ? index.plugins.map(p => p.slug) : [];
+    const components = source !== 'plugins' ? index.components.map(c => c.slug) : [];
+    return [...new Set([...plugins, ...components])].sort();
+  }
+
+  /**
+   * Prefix matches first, then substring matches
+   */
+  private matchSlugs(slugs: string[], value: string): string[] {
+    const query = value.toLowerCase();
+    const prefixed = slugs.filter(slug => slug.startsWith(query));
+    const contained = slugs.filter(slug => !slug.startsWith(query) && slug.includes(query));
+    return [...prefixed, ...contained];
+  }
+
+  /**
+   * Build a completion result within the protocol's size limit
+   */
+  private result(values: string[]) {
+    return {
+      completion: {
+        values: values.slice(0, MAX_COMPLETION_VALUES),
+        total: values.length,
+        hasMore: values.length > MAX_COMPLETION_VALUES,
+      },
+    };
+  }
+}
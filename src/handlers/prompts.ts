@@ -0,0 +1,361 @@
+/**
+ * Prompt handlers for Foundation MCP Server
+ */
+
+import {
+  FoundationIndex,
+  NotFoundError,
+  ValidationError,
+} from '../types.js';
+import { CodebaseIndexer } from '../engines/CodebaseIndexer.js';
+import { WorkspaceManager } from '../engines/WorkspaceManager.js';
+import { logger } from '../utils/logger.js';
+
+type PromptArguments = Record<string, string | undefined>;
+
+/**
+ * Optional argument shared by every prompt
+ */
+const VERSION_ARGUMENT = {
+  name: 'version',
+  description: 'Foundation version to draw on (defaults to the primary checkout)',
+  required: false,
+};
+
+/**
+ * Bootstrap components and the Foundation plugin or component that replaces them
+ */
+const BOOTSTRAP_EQUIVALENTS: Record<string, string> = {
+  modal: 'reveal',
+  collapse: 'accordion',
+  accordion: 'accordion',
+  dropdown: 'dropdown',
+  tooltip: 'tooltip',
+  popover: 'tooltip',
+  carousel: 'orbit',
+  tabs: 'tabs',
+  offcanvas: 'offcanvas',
+  navbar: 'top-bar',
+  scrollspy: 'magellan',
+  alert: 'callout',
+  card: 'card',
+  badge: 'badge',
+  breadcrumb: 'breadcrumbs',
+  pagination: 'pagination',
+  progress: 'progress-bar',
+};
+
+export class PromptHandler {
+  private workspaces: WorkspaceManager;
+
+  constructor(workspaces: WorkspaceManager) {
+    this.workspaces = workspaces;
+  }
+
+  /**
+   * List all available prompts
+   */
+  async listPrompts() {
+    return {
+      prompts: [
+        {
+          name: 'scaffold_plugin',
+          description: 'Scaffold a new Foundation JavaScript plugin that follows the core plugin architecture',
+          arguments: [
+            { name: 'name', description: 'Plugin class name (e.g., MyAccordion)', required: true },
+            { name: 'description', description: 'What the plugin should do', required: true },
+            { name: 'basedOn', description: 'Slug of an existing plugin to model it on (e.g., accordion)', required: false },
+            VERSION_ARGUMENT,
+          ],
+        },
+        {
+          name: 'migrate_bootstrap_component',
+          description: 'Migrate a Bootstrap component to its Foundation equivalent',
+          arguments: [
+            { name: 'component', description: 'Bootstrap component name (e.g., modal, collapse, navbar)', required: true },
+            { name: 'code', description: 'Existing Bootstrap markup, JavaScript or Sass', required: false },
+            VERSION_ARGUMENT,
+          ],
+        },
+        {
+          name: 'audit_plugin_accessibility',
+          description: 'Audit a Foundation plugin for ARIA, keyboard and focus management',
+          arguments: [
+            { name: 'slug', description: 'Plugin slug (e.g., dropdown-menu)', required: true },
+            { name: 'code', description: 'Custom plugin code to audit instead of the Foundation source', required: false },
+            VERSION_ARGUMENT,
+          ],
+        },
+        {
+          name: 'add_sass_component',
+          description: 'Add a new Sass component to a Foundation theme',
+          arguments: [
+            { name: 'name', description: 'Component name (e.g., Alert)', required: true },
+            { name: 'description', description: 'What the component looks like and does', required: false },
+            { name: 'grid', description: 'Grid system the theme uses: xy-grid, float-grid or both', required: false },
+            VERSION_ARGUMENT,
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * Render a prompt with live data from the index
+   */
+  async getPrompt(name: string, args: PromptArguments = {}) {
+    logger.debug('Getting prompt', { name, args });
+
+    const { prompts } = await this.listPrompts();
+    if (!prompts.some(prompt => prompt.name === name)) {
+      throw new NotFoundError(`Prompt not found: ${name}`, { name });
+    }
+
+    const { indexer } = await this.workspaces.resolve(args.version);
+
+    switch (name) {
+      case 'scaffold_plugin':
+        return this.getScaffoldPluginPrompt(args, indexer);
+
+      case 'migrate_bootstrap_component':
+        return this.getMigrateBootstrapPrompt(args, indexer);
+
+      case 'audit_plugin_accessibility':
+        return this.getAuditAccessibilityPrompt(args, indexer);
+
+      case 'add_sass_component':
+        return this.getAddSassComponentPrompt(args, indexer);
+
+      default:
+        throw new NotFoundError(`Prompt not found: ${name}`, { name });
+    }
+  }
+
+  /**
+   * Scaffold a new plugin
+   */
+  private async getScaffoldPluginPrompt(args: PromptArguments, indexer: CodebaseIndexer) {
+    const name = this.requireArgument(args, 'name');
+    const description = this.requireArgument(args, 'description');
+    const index = await indexer.buildIndex();
+    const architecture = indexer.getPluginArchitecture();
+    const slug = this.toSlug(name);
+
+    const reference = args.basedOn
+      ? index.plugins.find(p => p.slug === args.basedOn)
+      : undefined;
+
+    const text = [
+      `Create a new Foundation for Sites plugin named \`${name}\` (slug \`${slug}\`).`,
+      '',
+      `Purpose: ${description}`,
+      '',
+      reference
+        ? `Model it on the existing ${reference.name} plugin (\`${reference.path}\`, selector \`${reference.selector}\`).`
+        : 'Pick the closest existing plugin below as a reference implementation.',
+      '',
+      '## Plugin architecture',
+      '```json',
+      JSON.stringify(architecture, null, 2),
+      '```',
+      '',
+      '## Existing plugins',
+      this.formatPluginList(index),
+      '',
+      '## Steps',
+      `1. Call the \`generate_plugin\` tool with name "${name}" and slug "${slug}" to get the boilerplate, tests and docs.`,
+      '2. Implement the behaviour inside `_init()` and `_events()`, and clean everything up in `_destroy()`.',
+      `3. Namespace every event as \`{event}.zf.${slug}\` and document it with \`@event\`.`,
+      '4. Run the result through `validate_plugin` and fix any errors before finishing.',
+    ].join('\n');
+
+    return {
+      description: `Scaffold the ${name} plugin`,
+      messages: [this.userMessage(text)],
+    };
+  }
+
+  /**
+   * Migrate a Bootstrap component
+   */
+  private async getMigrateBootstrapPrompt(args: PromptArguments, indexer: CodebaseIndexer) {
+    const component = this.requireArgument(args, 'component');
+    const index = await indexer.buildIndex();
+    const key = component.toLowerCase().replace(/[^a-z]/g, '');
+    const targetSlug = BOOTSTRAP_EQUIVALENTS[key];
+
+    const target = targetSlug
+      ? index.plugins.find(p => p.slug === targetSlug) ??
+        index.components.find(c => c.slug === targetSlug)
+      : undefined;
+
+    const isPlugin = target?.type === 'plugin';
+
+    const lines = [
+      `Migrate the Bootstrap \`${component}\` component to Foundation for Sites.`,
+      '',
+      target
+        ? `The Foundation equivalent is **${target.name}** (\`${target.slug}\`, ${target.type}).`
+        : targetSlug
+          ? `The usual Foundation equivalent is \`${targetSlug}\`, but it is not in the indexed repository; confirm it exists before relying on it.`
+          : 'There is no direct mapping for this component; choose the closest match from the lists below.',
+      '',
+      '## Foundation plugins',
+      this.formatPluginList(index),
+      '',
+      '## Foundation components',
+      this.formatComponentList(index),
+      '',
+      '## Steps',
+      `1. Call \`refactor_to_foundation\` with sourceType "${isPlugin || !target ? 'custom-plugin' : 'custom-component'}"${targetSlug ? ` and foundationTarget "${targetSlug}"` : ''} on the Bootstrap source.`,
+      '2. Replace Bootstrap `data-bs-*` attributes with Foundation data attributes and `data-options`.',
+      '3. Replace Bootstrap utility and grid classes with Foundation classes (XY Grid `grid-x` / `cell`).',
+      '4. Map Bootstrap events (`show.bs.*`, `hidden.bs.*`) to Foundation `.zf.*` events.',
+      '5. List every breaking change for the team before applying it.',
+    ];
+
+    if (args.code) {
+      lines.push('', '## Bootstrap source', '```', args.code, '```');
+    }
+
+    return {
+      description: `Migrate Bootstrap ${component} to Foundation`,
+      messages: [this.userMessage(lines.join('\n'))],
+    };
+  }
+
+  /**
+   * Audit plugin accessibility
+   */
+  private async getAuditAccessibilityPrompt(args: PromptArguments, indexer: CodebaseIndexer) {
+    const slug = this.requireArgument(args, 'slug');
+    const index = await indexer.buildIndex();
+    const plugin = index.plugins.find(p => p.slug === slug);
+
+    if (!plugin) {
+      throw new NotFoundError(`Plugin not found: ${slug}`, { slug });
+    }
+
+    const lines = [
+      `Audit the accessibility of the Foundation ${plugin.name} plugin.`,
+      '',
+      '## Plugin',
+      '```json',
+      JSON.stringify(plugin, null, 2),
+      '```',
+      '',
+      '## Checklist',
+      '1. ARIA roles, states and properties are set on init and kept in sync when state changes (`aria-expanded`, `aria-hidden`, `aria-controls`, `aria-selected`).',
+      '2. Every interactive element is reachable and operable with the keyboard through the `Keyboard` utility (ENTER, SPACE, ESCAPE, arrow keys where applicable).',
+      '3. Focus moves into opened content and returns to the trigger on close; focus is trapped only where the pattern requires it.',
+      '4. `_destroy()` removes every ARIA attribute and keyboard handler the plugin added.',
+      '5. The markup in the docs matches the WAI-ARIA Authoring Practices pattern for this widget.',
+      '',
+      `Use \`validate_plugin\` with strict mode on the source at \`${plugin.path}\` and read \`foundation://plugins/${plugin.slug}/docs\` for the documented markup.`,
+      'Report each finding with its WCAG 2.1 success criterion, severity and a concrete fix.',
+    ];
+
+    if (args.code) {
+      lines.push('', '## Code to audit', '```js', args.code, '```');
+    }
+
+    return {
+      description: `Accessibility audit for ${plugin.name}`,
+      messages: [this.userMessage(lines.join('\n'))],
+    };
+  }
+
+  /**
+   * Add a Sass component to a theme
+   */
+  private async getAddSassComponentPrompt(args: PromptArguments, indexer: CodebaseIndexer) {
+    const name = this.requireArgument(args, 'name');
+    const grid = args.grid ?? 'xy-grid';
+
+    if (!['xy-grid', 'float-grid', 'both'].includes(grid)) {
+      throw new ValidationError('grid must be one of: xy-grid, float-grid, both', { grid });
+    }
+
+    const index = await indexer.buildIndex();
+    const slug = this.toSlug(name);
+
+    const lines = [
+      `Add a new Sass component named \`${name}\` (slug \`${slug}\`) to a Foundation theme.`,
+      '',
+      ...(args.description ? [`Purpose: ${args.description}`, ''] : []),
+      '## Existing components',
+      'Reuse their mixins instead of duplicating styles where possible.',
+      this.formatComponentList(index),
+      '',
+      '## Steps',
+      `1. Check that no existing component above already covers "${name}".`,
+      `2. Call \`generate_component\` with name "${name}", slug "${slug}" and grid "${grid}".`,
+      `3. Declare every setting as \`$${slug}-*\` with \`!default\`, document it with SassDoc and add it to \`_settings.scss\`.`,
+      '4. Size with `rem-calc()` and colour from `$foundation-palette`.',
+      `5. Import the partial in your theme's app.scss and \`@include foundation-${slug};\`.`,
+    ];
+
+    return {
+      description: `Add the ${name} Sass component`,
+      messages: [this.userMessage(lines.join('\n'))],
+    };
+  }
+
+  /**
+   * Read a required prompt argument
+   */
+  private requireArgument(args: PromptArguments, name: string): string {
+    const value = args[name];
+    if (!value || !value.trim()) {
+      throw new ValidationError(`Missing required prompt argument: ${name}`, { argument: name });
+    }
+    return value.trim();
+  }
+
+  /**
+   * Convert a PascalCase or spaced name to kebab-case
+   */
+  private toSlug(name: string): string {
+    return name
+      .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+      .replace(/[\s_]+/g, '-')
+      .toLowerCase();
+  }
+
+  /**
+   * Markdown list of indexed plugins
+   */
+  private formatPluginList(index: FoundationIndex): string {
+    if (index.plugins.length === 0) {
+      return '_No plugins indexed._';
+    }
+    return index.plugins
+      .map(p => `- **${p.name}** (\`${p.slug}\`, \`${p.selector}\`): ${p.description}`)
+      .join('\n');
+  }
+
+  /**
+   * Markdown list of indexed components
+   */
+  private formatComponentList(index: FoundationIndex): string {
+    if (index.components.length === 0) {
+      return '_No components indexed._';
+    }
+    return index.components
+      .map(c => `- **${c.name}** (\`${c.slug}\`): mixins ${c.mixins.map(m => `\`${m}\``).join(', ') || 'none'}`)
+      .join('\n');
+  }
+
+  /**
+   * Wrap text in a user prompt message
+   */
+  private userMessage(text: string) {
+    return {
+      role: 'user' as const,
+      content: {
+        type: 'text' as const,
+        text,
+      },
+    };
+  }
+}
@@ -3,16 +3,212 @@
  */
 
 import {
+  AuditEntry,
+  CancelledError,
+  IndexChangeSet,
+  MCPServerError,
+  NotFoundError,
+  OperationContext,
+  RateLimitError,
+  ValidationError,
 } from '../types.js';
-import { CodebaseIndexer } from '../engines/CodebaseIndexer.js';
+import { FoundationWorkspace, WorkspaceManager } from '../engines/WorkspaceManager.js';
+import { StatusHandler } from './status.js';
+import { AuditLog } from '../utils/auditLog.js';
 import { logger } from '../utils/logger.js';
+import { componentReferencePage, pluginReferencePage } from '../utils/markdown.js';
+import { RateLimiter } from '../utils/rateLimiter.js';
+
+/**
+ * Fixed resources served for every workspace
+ */
+const BUILTIN_RESOURCES = [
+  {
+    uri: 'foundation://plugins/index',
+    name: 'Foundation Plugins Index',
+    description: 'Complete index of all Foundation plugins',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'foundation://components/index',
+    name: 'Foundation Components Index',
+    description: 'Complete index of all Foundation components',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'foundation://settings/variables',
+    name: 'Foundation Sass Settings',
+    description: 'Sass settings from _settings.scss and component !default variables, with SassDoc types, owning component and section',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'foundation://sass/api',
+    name: 'Foundation Sass API',
+    description: 'Sass functions and mixins from scss/util, with parameters, defaults, return types and SassDoc',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'foundation://build/config',
+    name: 'Build Configuration',
+    description: 'Foundation build system configuration',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'foundation://architecture/plugins',
+    name: 'Plugin Architecture Guide',
+    description: 'Detailed guide on Foundation plugin architecture',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'foundation://patterns/tests/javascript',
+    name: 'JavaScript Test Patterns',
+    description: 'Test patterns for JavaScript plugins',
+    mimeType: 'text/plain',
+  },
+  {
+    uri: 'foundation://patterns/tests/sass',
+    name: 'Sass Test Patterns',
+    description: 'Test patterns for Sass components',
+    mimeType: 'text/plain',
+  },
+  {
+    uri: 'foundation://integrations/wordpress',
+    name: 'WordPress Integration Guide',
+    description: 'How to use Foundation within WordPress themes or plugins',
+    mimeType: 'text/markdown',
+  },
+  {
+    uri: 'foundation://workspaces',
+    name: 'Foundation Versions',
+    description: 'Foundation versions this server can answer for; append ?version=<label> to any resource URI',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'foundation://server/status',
+    name: 'Server Status',
+    description: 'Index build stats, parse failures, cache hit rate, tool latency and active config',
+    mimeType: 'application/json',
+  },
+];
+
+/**
+ * Parameterized resources served for every workspace
+ */
+const BUILTIN_RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'foundation://plugins/{slug}/template',
+    name: 'Plugin Template',
+    description: 'Starter template for a Foundation plugin',
+    mimeType: 'text/plain',
+  },
+  {
+    uriTemplate: 'foundation://plugins/{slug}/docs',
+    name: 'Plugin Documentation',
+    description: 'Documentation page of a Foundation plugin from docs/pages, with its options, methods and events',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'foundation://components/{slug}/template',
+    name: 'Component Template',
+    description: 'Starter template for a Foundation Sass component',
+    mimeType: 'text/plain',
+  },
+  {
+    uriTemplate: 'foundation://components/{slug}/docs',
+    name: 'Component Documentation',
+    description: 'Documentation page of a Foundation Sass component from docs/pages',
+    mimeType: 'text/markdown',
+  },
+];
+
+/**
+ * Everything a resource reader receives besides its URI parameters
+ */
+export interface ResourceInvocation {
+  /** Foundation checkout selected by the ?version= query */
+  workspace: FoundationWorkspace;
+  context: OperationContext;
+}
+
+/**
+ * Resource contributed by an extension
+ */
+export interface ResourceDefinition {
+  /** foundation:// URI; `{name}` segments make it a template */
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  /** Text content; `params` holds the values of the template segments */
+  read(params: Record<string, string>, invocation: ResourceInvocation): Promise<string>;
+}
+
+interface RegisteredResource {
+  definition: ResourceDefinition;
+  pattern: RegExp;
+  parameters: string[];
+}
 
 export class ResourceHandler {
+  private workspaces: WorkspaceManager;
+  private rateLimiter: RateLimiter;
+  private statusHandler: StatusHandler;
+  private auditLog: AuditLog;
+  private extensionResources: RegisteredResource[] = [];
+
+  constructor(
+    workspaces: WorkspaceManager,
+    rateLimiter: RateLimiter,
+    statusHandler: StatusHandler,
+    auditLog: AuditLog
+  ) {
+    this.workspaces = workspaces;
+    this.rateLimiter = rateLimiter;
+    this.statusHandler = statusHandler;
+    this.auditLog = auditLog;
+  }
 
-  private indexer: CodebaseIndexer;
+  /**
+   * Serve an extension resource. Built-in URIs cannot be replaced.
+   */
+  registerResource(definition: ResourceDefinition): void {
+    const taken = [
+      ...BUILTIN_RESOURCES.map(resource => resource.uri),
+      ...BUILTIN_RESOURCE_TEMPLATES.map(template => template.uriTemplate),
+      ...this.extensionResources.map(resource => resource.definition.uri),
+    ];
+    if (taken.includes(definition.uri)) {
+      throw new ValidationError(`Resource already registered: ${definition.uri}`, { uri: definition.uri });
+    }
 
-  constructor(indexer: CodebaseIndexer) {
-    this.indexer = indexer;
+    const parameters: string[] = [];
+    const source = definition.uri
+      .split(/(\{[^}]+\})/)
+      .map(part => {
+        const parameter = part.match(/^\{([^}]+)\}$/);
+        if (parameter) {
+          parameters.push(parameter[1]);
+          return '([^/?]+)';
+        }
+        return part.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+
+    this.extensionResources.push({ definition, pattern: new RegExp(`^${source}$`), parameters });
+  }
+
+  /**
+   * Listing entries for extension resources or templates
+   */
+  private listExtensionResources(templates: boolean) {
+    return this.extensionResources
+      .filter(resource => (resource.parameters.length > 0) === templates)
+      .map(({ definition }) => ({
+        uri: definition.uri,
+        name: definition.name,
+        description: definition.description,
+        mimeType: definition.mimeType,
+      }));
   }
 
   /**
@@ -21,48 +217,20 @@ export class ResourceHandler {
   async listResources() {
     return {
       resources: [
-        {
-          uri: 'foundation://plugins/index',
-          name: 'Foundation Plugins Index',
-          description: 'Complete index of all Foundation plugins',
-          mimeType: 'application/json',
-        },
-        {
-          uri: 'foundation://components/index',
-          name: 'Foundation Components Index',
-          description: 'Complete index of all Foundation components',
-          mimeType: 'application/json',
-        },
-        {
-          uri: 'foundation://build/config',
-          name: 'Build Configuration',
-          description: 'Foundation build system configuration',
-          mimeType: 'application/json',
-        },
-        {
-          uri: 'foundation://architecture/plugins',
-          name: 'Plugin Architecture Guide',
-          description: 'Detailed guide on Foundation plugin architecture',
-          mimeType: 'application/json',
-        },
-        {
-          uri: 'foundation://patterns/tests/javascript',
-          name: 'JavaScript Test Patterns',
-          description: 'Test patterns for JavaScript plugins',
-          mimeType: 'text/plain',
-        },
-        {
-          uri: 'foundation://patterns/tests/sass',
-          name: 'Sass Test Patterns',
-          description: 'Test patterns for Sass components',
-          mimeType: 'text/plain',
-        },
-        {
-          uri: 'foundation://integrations/wordpress',
-          name: 'WordPress Integration Guide',
-          description: 'How to use Foundation within WordPress themes or plugins',
-          mimeType: 'text/markdown',
-        },
+        ...BUILTIN_RESOURCES,
+        ...this.listExtensionResources(false),
+      ],
+    };
+  }
+
+  /**
+   * List parameterized resource templates
+   */
+  async listResourceTemplates() {
+    return {
+      resourceTemplates: [
+        ...BUILTIN_RESOURCE_TEMPLATES,
+        ...this.listExtensionResources(true).map(({ uri, ...rest }) => ({ uriTemplate: uri, ...rest })),
       ],
     };
   }
@@ -70,15 +238,88 @@ export class ResourceHandler {
   /**
    * Read resource content
    */
-  async readResource(uri: string) {
-    logger.debug('Reading resource', { uri });
+  async readResource(uri: string, sessionId: string = 'local', context: OperationContext = {}) {
+    logger.debug('Reading resource', { uri, sessionId });
+
+    const startedAt = Date.now();
+    const audit = (outcome: AuditEntry['outcome'], errorCode?: string) =>
+      this.auditLog.record({
+        session: sessionId,
+        kind: 'resource',
+        name: uri,
+        args: {},
+        durationMs: Date.now() - startedAt,
+        outcome,
+        errorCode,
+      });
+
+    try {
+      const result = await this.serveResource(uri, sessionId, context);
+      await audit('success');
+      return result;
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        await audit('rate_limited', error.code);
+      } else if (error instanceof CancelledError) {
+        await audit('cancelled', error.code);
+      } else {
+        await audit('error', error instanceof MCPServerError ? error.code : 'INTERNAL_ERROR');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check the rate limit, then read the resource from its workspace
+   */
+  private async serveResource(uri: string, sessionId: string, context: OperationContext) {
+    const decision = this.rateLimiter.checkResource(sessionId);
+    if (!decision.allowed) {
+      const retryAfterSeconds = Math.ceil(decision.retryAfterMs / 1000);
+      throw new RateLimitError(
+        `Rate limit exceeded for resource reads. Retry after ${retryAfterSeconds}s.`,
+        { uri, bucket: decision.bucket, limitPerMinute: decision.limit, retryAfterSeconds }
+      );
+    }
+
+    const { path, version } = this.parseUri(uri);
+    const workspace = await this.workspaces.resolve(version);
+    const result = await this.routeResource(path, workspace, context);
 
+    // Echo the versioned URI the client asked for
+    return {
+      ...result,
+      contents: result.contents.map(content => ({ ...content, uri })),
+    };
+  }
+
+  /**
+   * Split the optional ?version= query off a resource URI
+   */
+  private parseUri(uri: string): { path: string; version?: string } {
+    const [path, query] = uri.split('?', 2);
+    const version = query ? new URLSearchParams(query).get('version') ?? undefined : undefined;
+    return { path, version };
+  }
+
+  /**
+   * Dispatch a resource read to its handler
+   */
+  private async routeResource(uri: string, workspace: FoundationWorkspace, context: OperationContext) {
     if (uri === 'foundation://plugins/index') {
-      return this.getPluginsIndex();
+      return this.getPluginsIndex(workspace, context);
     }
 
     if (uri === 'foundation://components/index') {
-      return this.getComponentsIndex();
+      return this.getComponentsIndex(workspace, context);
+    }
+
+    if (uri === 'foundation://settings/variables') {
+      return this.getSettingsVariables(workspace, context);
+    }
+
+    if (uri === 'foundation://sass/api') {
+      return this.getSassApi(workspace, context);
     }
 
     if (uri === 'foundation://build/config') {
@@ -86,7 +327,7 @@ export class ResourceHandler {
     }
 
     if (uri === 'foundation://architecture/plugins') {
-      return this.getPluginArchitecture();
+      return this.getPluginArchitecture(workspace);
     }
 
     if (uri === 'foundation://patterns/tests/javascript') {
@@ -101,31 +342,85 @@ export class ResourceHandler {
       return this.getWordPressIntegration();
     }
 
+    if (uri === 'foundation://workspaces') {
+      return this.getWorkspaces();
+    }
+
+    if (uri === 'foundation://server/status') {
+      return this.getServerStatus();
+    }
+
     // Handle dynamic resources (plugin/component specific)
-    const pluginMatch = uri.match(/^foundation:\/\/plugins\/([^\/]+)\/(template|docs)$/);
+    const pluginMatch = uri.match(/^foundation:\/\/plugins\/([^/]+)\/(template|docs)$/);
     if (pluginMatch) {
       const [, slug, type] = pluginMatch;
       return type === 'template'
         ? this.getPluginTemplate(slug)
-        : this.getPluginDocs(slug);
+        : this.getPluginDocs(slug, workspace, context);
     }
 
-    const componentMatch = uri.match(/^foundation:\/\/components\/([^\/]+)\/(template|docs)$/);
+    const componentMatch = uri.match(/^foundation:\/\/components\/([^/]+)\/(template|docs)$/);
     if (componentMatch) {
       const [, slug, type] = componentMatch;
       return type === 'template'
         ? this.getComponentTemplate(slug)
-        : this.getComponentDocs(slug);
+        : this.getComponentDocs(slug, workspace, context);
+    }
+
+    for (const resource of this.extensionResources) {
+      const match = uri.match(resource.pattern);
+      if (match) {
+        const params = Object.fromEntries(
+          resource.parameters.map((name, i) => [name, decodeURIComponent(match[i + 1])])
+        );
+        const text = await resource.definition.read(params, { workspace, context });
+        return {
+          contents: [{ uri, mimeType: resource.definition.mimeType, text }],
+        };
+      }
     }
 
-    throw new Error(`Resource not found: ${uri}`);
+    throw new NotFoundError(`Resource not found: ${uri}`, { uri });
+  }
+
+  /**
+   * Resource URIs whose content changed after a re-index. Versioned URIs use
+   * the workspace label; the primary workspace also answers unversioned URIs.
+   */
+  getUpdatedResourceUris(changes: IndexChangeSet, workspace: FoundationWorkspace): string[] {
+    const uris = new Set<string>();
+
+    if (changes.plugins.length > 0) {
+      uris.add('foundation://plugins/index');
+    }
+    if (changes.components.length > 0) {
+      uris.add('foundation://components/index');
+    }
+    if (changes.settings.length > 0) {
+      uris.add('foundation://settings/variables');
+    }
+    if (changes.sassApi.length > 0) {
+      uris.add('foundation://sass/api');
+    }
+
+    changes.plugins.forEach(slug => uris.add(`foundation://plugins/${slug}/docs`));
+    changes.components.forEach(slug => uris.add(`foundation://components/${slug}/docs`));
+
+    // A docs page may describe either a plugin or a component with the same slug
+    changes.docs.forEach(slug => {
+      uris.add(`foundation://plugins/${slug}/docs`);
+      uris.add(`foundation://components/${slug}/docs`);
+    });
+
+    const versioned = [...uris].map(uri => `${uri}?version=${encodeURIComponent(workspace.version)}`);
+    return workspace.isDefault ? [...uris, ...versioned] : versioned;
   }
 
   /**
    * Get plugins index
    */
-  private async getPluginsIndex() {
-    const index = await this.indexer.buildIndex();
+  private async getPluginsIndex(workspace: FoundationWorkspace, context: OperationContext) {
+    const index = await this.workspaces.waitForIndex(workspace, context);
     return {
       contents: [
         {
@@ -140,8 +435,8 @@ export class ResourceHandler {
   /**
    * Get components index
    */
-  private async getComponentsIndex() {
-    const index = await this.indexer.buildIndex();
+  private async getComponentsIndex(workspace: FoundationWorkspace, context: OperationContext) {
+    const index = await this.workspaces.waitForIndex(workspace, context);
     return {
       contents: [
         {
@@ -153,6 +448,38 @@ export class ResourceHandler {
     };
   }
 
+  /**
+   * Get the Sass settings catalog
+   */
+  private async getSettingsVariables(workspace: FoundationWorkspace, context: OperationContext) {
+    const index = await this.workspaces.waitForIndex(workspace, context);
+    return {
+      contents: [
+        {
+          uri: 'foundation://settings/variables',
+          mimeType: 'application/json',
+          text: JSON.stringify(index.settings, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Get the Sass function and mixin catalog
+   */
+  private async getSassApi(workspace: FoundationWorkspace, context: OperationContext) {
+    const index = await this.workspaces.waitForIndex(workspace, context);
+    return {
+      contents: [
+        {
+          uri: 'foundation://sass/api',
+          mimeType: 'application/json',
+          text: JSON.stringify(index.sassApi, null, 2),
+        },
+      ],
+    };
+  }
+
   /**
    * Get build configuration
    */
@@ -193,37 +520,8 @@ export class ResourceHandler {
   /**
    * Get plugin architecture guide
    */
-  private async getPluginArchitecture() {
-    const architecture = {
-      baseClass: 'Plugin',
-      baseClassPath: 'js/foundation.core.plugin.js',
-      lifecycle: {
-        constructor: {
-          description: 'Called when plugin instance is created',
-          parameters: ['element', 'options'],
-        },
-        _init: {
-          description: 'Initialize the plugin',
-          hooks: ['_addEventListeners', '_bindEvents'],
-        },
-        _destroy: {
-          description: 'Clean up when plugin is destroyed',
-          responsibilities: ['Remove event listeners', 'Clean up DOM', 'Reset state'],
-        },
-      },
-      patterns: {
-        eventHandling: {
-          description: 'How to add event handlers',
-          example: "this.$element.on('click.zf.plugin', handler);",
-        },
-        dataAttributes: {
-          description: 'Using data attributes for configuration',
-          example: '[data-plugin][data-options="option: value;"]',
-        },
-      },
-      requiredMethods: ['_init', '_destroy'],
-      optionalPatterns: ['_addEventListeners', '_setupKeyboard'],
-    };
+  private async getPluginArchitecture(workspace: FoundationWorkspace) {
+    const architecture = workspace.indexer.getPluginArchitecture();
 
     return {
       contents: [
@@ -338,14 +636,19 @@ export class ResourceHandler {
   }
 
   /**
-   * Get plugin docs (stub)
+   * Get plugin docs: its docs page, then options, public methods and events
+   * from the index
    */
-  private async getPluginDocs(slug: string) {
-    const index = await this.indexer.buildIndex();
+  private async getPluginDocs(
+    slug: string,
+    workspace: FoundationWorkspace,
+    context: OperationContext
+  ) {
+    const index = await this.workspaces.waitForIndex(workspace, context);
     const plugin = index.plugins.find((p: any) => p.slug === slug);
 
     if (!plugin) {
-      throw new Error(`Plugin not found: ${slug}`);
+      throw new NotFoundError(`Plugin not found: ${slug}`, { slug });
     }
 
     return {
@@ -353,7 +656,7 @@ export class ResourceHandler {
         {
           uri: `foundation://plugins/${slug}/docs`,
           mimeType: 'text/markdown',
-          text: `# ${plugin.name}\n\n${plugin.description}\n\nDocs: ${plugin.docs}`,
+          text: pluginReferencePage(plugin, index.docs.find(page => page.slug === plugin.docsPage)),
         },
       ],
     };
@@ -375,14 +678,18 @@ export class ResourceHandler {
   }
 
   /**
-   * Get component docs (stub)
+   * Get component docs from its docs page
    */
-  private async getComponentDocs(slug: string) {
-    const index = await this.indexer.buildIndex();
+  private async getComponentDocs(
+    slug: string,
+    workspace: FoundationWorkspace,
+    context: OperationContext
+  ) {
+    const index = await this.workspaces.waitForIndex(workspace, context);
     const component = index.components.find((c: any) => c.slug === slug);
 
     if (!component) {
-      throw new Error(`Component not found: ${slug}`);
+      throw new NotFoundError(`Component not found: ${slug}`, { slug });
     }
 
     return {
@@ -390,7 +697,41 @@ export class ResourceHandler {
         {
           uri: `foundation://components/${slug}/docs`,
           mimeType: 'text/markdown',
-          text: `# ${component.name}\n\n${component.description}\n\nDocs: ${component.docs}`,
+          text: componentReferencePage(component, index.docs.find(page => page.slug === component.docsPage)),
+        },
+      ],
+    };
+  }
+
+  /**
+   * List the registered Foundation versions
+   */
+  private async getWorkspaces() {
+    const workspaces = await this.workspaces.describe();
+
+    return {
+      contents: [
+        {
+          uri: 'foundation://workspaces',
+          mimeType: 'application/json',
+          text: JSON.stringify(workspaces, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Get server status and metrics
+   */
+  private async getServerStatus() {
+    const status = await this.statusHandler.getStatus();
+
+    return {
+      contents: [
+        {
+          uri: 'foundation://server/status',
+          mimeType: 'application/json',
+          text: JSON.stringify(status, null, 2),
         },
       ],
     };
@@ -0,0 +1,107 @@
+/**
+ * Server status handler for Foundation MCP Server
+ */
+
+import path from 'path';
+import { IndexStats, ServerConfig } from '../types.js';
+import { WorkspaceManager } from '../engines/WorkspaceManager.js';
+import { CacheStats, InstrumentedCache } from '../utils/cache.js';
+import { ToolCallStats, ToolMetrics } from '../utils/metrics.js';
+import { redactPath, redactUrl } from '../utils/redact.js';
+import { SchedulerStats } from '../utils/scheduler.js';
+
+export type QueueStatsProvider = () => SchedulerStats[];
+
+export interface WorkspaceStatus {
+  version: string;
+  path: string;
+  isDefault: boolean;
+  index: IndexStats;
+}
+
+export interface ServerStatus {
+  startedAt: string;
+  uptimeSeconds: number;
+  /** Whether every workspace index is built; tools that need it wait otherwise */
+  ready: boolean;
+  workspaces: WorkspaceStatus[];
+  cache: CacheStats & { backend: ServerConfig['cache']['backend'] };
+  tools: ToolCallStats[];
+  queues: SchedulerStats[];
+  config: ServerConfig;
+}
+
+export class StatusHandler {
+  private config: ServerConfig;
+  private workspaces: WorkspaceManager;
+  private cache: InstrumentedCache;
+  private metrics: ToolMetrics;
+  private getQueueStats: QueueStatsProvider;
+  private startedAt = new Date();
+
+  constructor(
+    config: ServerConfig,
+    workspaces: WorkspaceManager,
+    cache: InstrumentedCache,
+    metrics: ToolMetrics,
+    getQueueStats: QueueStatsProvider
+  ) {
+    this.config = config;
+    this.workspaces = workspaces;
+    this.cache = cache;
+    this.metrics = metrics;
+    this.getQueueStats = getQueueStats;
+  }
+
+  /**
+   * Snapshot of index, cache, tool and queue state
+   */
+  async getStatus(): Promise<ServerStatus> {
+    const workspaces = await this.workspaces.list();
+
+    return {
+      startedAt: this.startedAt.toISOString(),
+      uptimeSeconds: Math.round((Date.now() - this.startedAt.getTime()) / 1000),
+      ready: workspaces.every(workspace => workspace.indexer.isReady()),
+      workspaces: workspaces.map(workspace => ({
+        version: workspace.version,
+        path: redactPath(workspace.path),
+        isDefault: workspace.isDefault,
+        index: workspace.indexer.getStats(),
+      })),
+      cache: {
+        backend: this.config.cache.backend,
+        ...this.cache.stats(),
+      },
+      tools: this.metrics.snapshot(),
+      queues: this.getQueueStats(),
+      config: redactConfig(this.config),
+    };
+  }
+}
+
+/**
+ * Copy of the config that is safe to show to clients
+ */
+export function redactConfig(config: ServerConfig): ServerConfig {
+  return {
+    ...config,
+    foundationRepoPath: redactPath(config.foundationRepoPath),
+    workspaces: config.workspaces.map(workspace => ({ ...workspace, path: redactPath(workspace.path) })),
+    // Package names stay as they are; only file paths are local
+    extensions: config.extensions.map(extension => isFilePath(extension) ? redactPath(extension) : extension),
+    cache: {
+      ...config.cache,
+      redisUrl: config.cache.redisUrl && redactUrl(config.cache.redisUrl),
+    },
+    snapshot: { ...config.snapshot, directory: redactPath(config.snapshot.directory) },
+    audit: { ...config.audit, path: redactPath(config.audit.path) },
+  };
+}
+
+/**
+ * Whether an extension entry is a file rather than a package name
+ */
+function isFilePath(value: string): boolean {
+  return value.startsWith('.') || path.isAbsolute(value);
+}
@@ -0,0 +1,60 @@
+/**
+ * Resource subscription tracking for Foundation MCP Server
+ */
+
+import { logger } from '../utils/logger.js';
+
+export class SubscriptionHandler {
+  private subscriptions = new Map<string, Set<string>>();
+
+  /**
+   * Subscribe a session to updates of a resource
+   */
+  subscribe(sessionId: string, uri: string): void {
+    let uris = this.subscriptions.get(sessionId);
+    if (!uris) {
+      uris = new Set();
+      this.subscriptions.set(sessionId, uris);
+    }
+    uris.add(uri);
+    logger.debug('Resource subscribed', { sessionId, uri });
+  }
+
+  /**
+   * Remove a session's subscription to a resource
+   */
+  unsubscribe(sessionId: string, uri: string): void {
+    const uris = this.subscriptions.get(sessionId);
+    if (!uris) {
+      return;
+    }
+    uris.delete(uri);
+    if (uris.size === 0) {
+      this.subscriptions.delete(sessionId);
+    }
+    logger.debug('Resource unsubscribed', { sessionId, uri });
+  }
+
+  /**
+   * Drop every subscription held by a closed session
+   */
+  removeSession(sessionId: string): void {
+    this.subscriptions.delete(sessionId);
+  }
+
+  /**
+   * Sessions subscribed to each of the given resources
+   */
+  getSubscribers(uris: string[]): Map<string, string[]> {
+    const subscribers = new Map<string, string[]>();
+
+    for (const [sessionId, subscribed] of this.subscriptions) {
+      const matching = uris.filter(uri => subscribed.has(uri));
+      if (matching.length > 0) {
+        subscribers.set(sessionId, matching);
+      }
+    }
+
+    return subscribers;
+  }
+}
@@ -2,15 +2,26 @@
  * Entry point for Foundation MCP Server
  */
 
-import { getConfig, validateConfig } from './config.js';
+import { loadConfig } from './config.js';
 import { FoundationMCPServer } from './server.js';
 import { logger } from './utils/logger.js';
 
+/**
+ * Config file passed as `--config <path>` or `--config=<path>`
+ */
+function configPathFromArgv(argv: string[]): string | undefined {
+  const index = argv.findIndex(arg => arg === '--config' || arg.startsWith('--config='));
+  if (index === -1) {
+    return undefined;
+  }
+  return argv[index].includes('=') ? argv[index].slice('--config='.length) : argv[index + 1];
+}
+
 async function main() {
   try {
     // Load and validate configuration
-    const config = getConfig();
-    validateConfig(config);
+    const config = await loadConfig({ configPath: configPathFromArgv(process.argv.slice(2)) });
+    logger.setLevel(config.logLevel);
 
     // Create and start server
     const server = new FoundationMCPServer(config);
@@ -31,16 +42,18 @@ async function main() {
 
     // Keep the server running - don't exit the process
     // The stdio transport will handle communication with the client
-    process.stdin.on('close', async () => {
-      logger.info('stdin closed, shutting down...');
-      await server.stop();
-      process.exit(0);
-    });
+    if (config.transport === 'stdio') {
+      process.stdin.on('close', async () => {
+        logger.info('stdin closed, shutting down...');
+        await server.stop();
+        process.exit(0);
+      });
 
-    process.stdin.on('error', (error) => {
-      logger.error('stdin error', error);
-      process.exit(1);
-    });
+      process.stdin.on('error', (error) => {
+        logger.error('stdin error', error);
+        process.exit(1);
+      });
+    }
   } catch (error) {
     logger.error('Failed to start server', error);
     process.exit(1);
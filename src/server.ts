@@ -2,110 +2,389 @@
  * MCP Server for Foundation Sites
  */
 
+import { existsSync } from 'fs';
+import { fileURLToPath } from 'url';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ProgressToken,
   ReadResourceRequestSchema,
+  RootsListChangedNotificationSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
-import { ServerConfig, CacheInterface } from './types.js';
-import { createCache } from './utils/cache.js';
+import { ServerConfig, IndexChangeSet, OperationContext } from './types.js';
+import { AuditLog } from './utils/auditLog.js';
+import { createCache, InstrumentedCache } from './utils/cache.js';
 import { logger } from './utils/logger.js';
-import { CodebaseIndexer } from './engines/CodebaseIndexer.js';
+import { ServerErrorCode, toProtocolError } from './utils/errors.js';
+import { ToolMetrics } from './utils/metrics.js';
+import { PathSandbox } from './utils/pathSandbox.js';
+import { RateLimiter } from './utils/rateLimiter.js';
+import { ParsePool } from './utils/parsePool.js';
+import { WorkScheduler, SchedulerStats } from './utils/scheduler.js';
 import { PluginAnalyzer } from './engines/PluginAnalyzer.js';
-import { RefactoringAnalyzer } from './engines/RefactoringAnalyzer.js';
+import { RepositoryWatcher } from './engines/RepositoryWatcher.js';
+import { FoundationWorkspace, WorkspaceManager } from './engines/WorkspaceManager.js';
 import { PluginGenerator } from './generators/PluginGenerator.js';
 import { ComponentGenerator } from './generators/ComponentGenerator.js';
+import { CompletionHandler, CompletionRequestSchema } from './handlers/completions.js';
+import { PromptHandler } from './handlers/prompts.js';
 import { ResourceHandler } from './handlers/resources.js';
+import { StatusHandler } from './handlers/status.js';
+import { SubscriptionHandler } from './handlers/subscriptions.js';
 import { ToolHandler } from './handlers/tools.js';
+import { createToolRegistry, ToolRegistry } from './tools/index.js';
+import { ExtensionLoader } from './extensions/index.js';
+import { HttpTransportServer } from './transports/http.js';
+
+/**
+ * Session identifier used for the single stdio client
+ */
+export const STDIO_SESSION_ID = 'stdio';
+
+/**
+ * Session identifier for calls made without an MCP client
+ */
+export const LOCAL_SESSION_ID = 'local';
+
+/**
+ * Compiled parse worker entry point; undefined when running from source
+ * under tsx, whose loader does not apply inside worker threads
+ */
+function parseWorkerScript(): string | undefined {
+  const script = fileURLToPath(new URL('./utils/parseWorker.js', import.meta.url));
+  return existsSync(script) ? script : undefined;
+}
 
 export class FoundationMCPServer {
-  private server: Server;
+  private server: Server | null = null;
+  private httpTransport: HttpTransportServer | null = null;
+  private watchers: RepositoryWatcher[] = [];
+  private sessions = new Map<string, Server>();
   private config: ServerConfig;
-  private cache: CacheInterface;
-  private indexer: CodebaseIndexer;
+  private cache: InstrumentedCache;
+  private workspaces: WorkspaceManager;
   private pluginAnalyzer: PluginAnalyzer;
-  private refactoringAnalyzer: RefactoringAnalyzer;
   private pluginGenerator: PluginGenerator;
   private componentGenerator: ComponentGenerator;
   private resourceHandler: ResourceHandler;
+  private promptHandler: PromptHandler;
+  private completionHandler: CompletionHandler;
+  private subscriptionHandler: SubscriptionHandler;
+  private statusHandler: StatusHandler;
   private toolHandler: ToolHandler;
+  private toolRegistry: ToolRegistry;
+  private extensionLoader: ExtensionLoader;
+  private extensionsLoaded: Promise<void> | null = null;
+  private indexing: Promise<void> | null = null;
+  private indexingController = new AbortController();
+  private rateLimiter: RateLimiter;
+  private pathSandbox: PathSandbox;
+  private auditLog: AuditLog;
+  private metrics = new ToolMetrics();
+  private toolScheduler: WorkScheduler;
+  private parsePool: ParsePool;
 
   constructor(config: ServerConfig) {
     this.config = config;
-    this.cache = createCache(config);
+    this.cache = new InstrumentedCache(createCache(config));
+
+    // Tool executions and parser jobs each get their own bounded queue, so a
+    // running tool can always schedule the parses it depends on. Parsing
+    // runs on worker threads to keep the event loop free for requests.
+    this.toolScheduler = new WorkScheduler('tools', config.performance.maxConcurrentOperations);
+    this.parsePool = new ParsePool(config.performance, parseWorkerScript());
 
     // Initialize engines and generators
-    this.indexer = new CodebaseIndexer(config, this.cache);
-    this.pluginAnalyzer = new PluginAnalyzer();
-    this.refactoringAnalyzer = new RefactoringAnalyzer(config, this.cache, this.indexer);
+    this.workspaces = new WorkspaceManager(config, this.cache, this.parsePool);
+    this.pluginAnalyzer = new PluginAnalyzer(this.parsePool);
     this.pluginGenerator = new PluginGenerator();
     this.componentGenerator = new ComponentGenerator();
 
+    // File inputs stay inside the configured checkouts; local clients may
+    // narrow them with their roots. Calls without a client act for the user
+    // in the working directory.
+    this.pathSandbox = new PathSandbox(
+      [config.foundationRepoPath, ...config.workspaces.map(workspace => workspace.path)],
+      config.transport !== 'http'
+    );
+    this.pathSandbox.setTrustedRoots(LOCAL_SESSION_ID, [process.cwd()]);
+
     // Initialize handlers
-    this.resourceHandler = new ResourceHandler(this.indexer);
-    this.toolHandler = new ToolHandler(
+    this.rateLimiter = new RateLimiter(config.security);
+    this.auditLog = new AuditLog(config.audit);
+    this.statusHandler = new StatusHandler(
       config,
+      this.workspaces,
       this.cache,
-      this.indexer,
-      this.pluginAnalyzer,
-      this.refactoringAnalyzer,
-      this.pluginGenerator,
-      this.componentGenerator
+      this.metrics,
+      () => this.getQueueStats()
+    );
+    this.resourceHandler = new ResourceHandler(
+      this.workspaces,
+      this.rateLimiter,
+      this.statusHandler,
+      this.auditLog
     );
+    this.promptHandler = new PromptHandler(this.workspaces);
+    this.completionHandler = new CompletionHandler(this.workspaces);
+    this.subscriptionHandler = new SubscriptionHandler();
+    this.toolRegistry = createToolRegistry();
+    this.toolHandler = new ToolHandler(
+      this.toolRegistry,
+      {
+        pluginAnalyzer: this.pluginAnalyzer,
+        pluginGenerator: this.pluginGenerator,
+        componentGenerator: this.componentGenerator,
+        statusHandler: this.statusHandler,
+        auditLog: this.auditLog,
+      },
+      this.workspaces,
+      this.rateLimiter,
+      this.toolScheduler,
+      this.metrics,
+      this.pathSandbox,
+      this.auditLog,
+      config
+    );
+    this.extensionLoader = new ExtensionLoader({
+      config,
+      cache: this.cache,
+      workspaces: this.workspaces,
+      tools: this.toolRegistry,
+      resources: this.resourceHandler,
+      pluginAnalyzer: this.pluginAnalyzer,
+      pluginGenerator: this.pluginGenerator,
+      componentGenerator: this.componentGenerator,
+    });
+  }
 
-    // Initialize MCP Server
-    this.server = new Server(
+  /**
+   * Load configured extensions once, before the first request is served,
+   * then check tool defaults against the full tool set
+   */
+  private loadExtensions(): Promise<void> {
+    if (!this.extensionsLoaded) {
+      this.extensionsLoaded = this.extensionLoader
+        .loadAll(this.config.extensions)
+        .then(() => this.toolHandler.checkToolDefaults());
+    }
+    return this.extensionsLoaded;
+  }
+
+  /**
+   * Create an MCP server instance for a single client session
+   */
+  private createSessionServer(sessionId: string): Server {
+    const server = new Server(
       {
         name: 'foundation-mcp-server',
         version: '1.0.0',
       },
       {
         capabilities: {
-          resources: {},
+          prompts: {},
+          resources: {
+            subscribe: true,
+          },
           tools: {},
         },
       }
     );
 
-    this.setupHandlers();
+    this.setupHandlers(server, sessionId);
+
+    this.sessions.set(sessionId, server);
+    server.oninitialized = () => this.pathSandbox.refreshClientRoots(server, sessionId);
+    server.onclose = () => {
+      this.sessions.delete(sessionId);
+      this.subscriptionHandler.removeSession(sessionId);
+      this.pathSandbox.removeSession(sessionId);
+    };
+
+    return server;
   }
 
   /**
    * Setup MCP request handlers
    */
-  private setupHandlers(): void {
+  private setupHandlers(server: Server, sessionId: string): void {
     // List available resources
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
       logger.debug('Handling ListResources request');
       return this.resourceHandler.listResources();
     });
 
+    // List resource templates
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      logger.debug('Handling ListResourceTemplates request');
+      return this.resourceHandler.listResourceTemplates();
+    });
+
     // Read resource content
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      logger.debug('Handling ReadResource request', { uri: request.params.uri });
-      return this.resourceHandler.readResource(request.params.uri);
+    server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      logger.debug('Handling ReadResource request', { uri: request.params.uri, sessionId });
+      return this.resourceHandler
+        .readResource(
+          request.params.uri,
+          sessionId,
+          this.createOperationContext(server, request.params._meta?.progressToken, extra.signal)
+        )
+        .catch(error => {
+          throw toProtocolError(error, ServerErrorCode.ResourceNotFound);
+        });
+    });
+
+    // Subscribe to resource updates
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.subscriptionHandler.subscribe(sessionId, request.params.uri);
+      return {};
+    });
+
+    // Unsubscribe from resource updates
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptionHandler.unsubscribe(sessionId, request.params.uri);
+      return {};
     });
 
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       logger.debug('Handling ListTools request');
       return this.toolHandler.listTools();
     });
 
+    // List available prompts
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      logger.debug('Handling ListPrompts request');
+      return this.promptHandler.listPrompts();
+    });
+
+    // Render prompt
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      logger.debug('Handling GetPrompt request', { name: request.params.name, sessionId });
+      return this.promptHandler
+        .getPrompt(request.params.name, request.params.arguments || {})
+        .catch(error => {
+          throw toProtocolError(error);
+        });
+    });
+
+    // Complete prompt, resource template and tool arguments
+    server.setRequestHandler(CompletionRequestSchema, async (request) => {
+      logger.debug('Handling Complete request', { ref: request.params.ref, sessionId });
+      return this.completionHandler
+        .complete(request.params.ref, request.params.argument)
+        .catch(error => {
+          throw toProtocolError(error);
+        });
+    });
+
+    // Client roots changed
+    server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+      this.pathSandbox.refreshClientRoots(server, sessionId);
+    });
+
     // Call tool
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      logger.debug('Handling CallTool request', { name: request.params.name });
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      logger.debug('Handling CallTool request', { name: request.params.name, sessionId });
       return this.toolHandler.callTool(
         request.params.name,
-        request.params.arguments || {}
+        request.params.arguments || {},
+        sessionId,
+        this.createOperationContext(server, request.params._meta?.progressToken, extra.signal)
       );
     });
   }
 
+  /**
+   * Tie an operation to its request: cancellation comes from the request
+   * signal, and progress is sent only when the client asked for it
+   */
+  private createOperationContext(
+    server: Server,
+    progressToken: ProgressToken | undefined,
+    signal: AbortSignal
+  ): OperationContext {
+    if (progressToken === undefined) {
+      return { signal };
+    }
+
+    return {
+      signal,
+      onProgress: (update) => {
+        if (signal.aborted) {
+          return;
+        }
+        server
+          .notification({
+            method: 'notifications/progress',
+            params: { progressToken, ...update },
+          })
+          .catch(error => logger.warn('Failed to send progress notification', {
+            progressToken,
+            error: String(error),
+          }));
+      },
+    };
+  }
+
+  /**
+   * Notify subscribed sessions about resources changed by a re-index
+   */
+  private async notifyResourcesUpdated(
+    changes: IndexChangeSet,
+    workspace: FoundationWorkspace
+  ): Promise<void> {
+    const uris = this.resourceHandler.getUpdatedResourceUris(changes, workspace);
+    const subscribers = this.subscriptionHandler.getSubscribers(uris);
+
+    for (const [sessionId, subscribedUris] of subscribers) {
+      const server = this.sessions.get(sessionId);
+      if (!server) {
+        continue;
+      }
+
+      for (const uri of subscribedUris) {
+        try {
+          await server.sendResourceUpdated({ uri });
+        } catch (error) {
+          logger.warn('Failed to send resource update', { sessionId, uri, error: String(error) });
+        }
+      }
+    }
+  }
+
+  /**
+   * Call a tool outside any MCP session, as the CLI does
+   */
+  async callTool(name: string, args: Record<string, unknown>, context?: OperationContext) {
+    await this.loadExtensions();
+    return this.toolHandler.callTool(name, args, LOCAL_SESSION_ID, context);
+  }
+
+  /**
+   * Whether every workspace index has been built
+   */
+  private async isIndexReady(): Promise<boolean> {
+    const workspaces = await this.workspaces.list();
+    return workspaces.every(workspace => workspace.indexer.isReady());
+  }
+
+  /**
+   * Queue depth and throughput of the work schedulers
+   */
+  getQueueStats(): SchedulerStats[] {
+    return [this.toolScheduler.stats(), this.parsePool.stats()];
+  }
+
   /**
    * Start the MCP server
    */
@@ -113,22 +392,70 @@ export class FoundationMCPServer {
     logger.info('Starting Foundation MCP Server...', {
       repoPath: this.config.foundationRepoPath,
       cacheBackend: this.config.cache.backend,
+      transport: this.config.transport,
     });
 
-    // Build initial index
-    try {
-      await this.indexer.buildIndex();
-      logger.info('Initial index built successfully');
-    } catch (error) {
-      logger.error('Failed to build initial index', error);
-      throw error;
+    await this.loadExtensions();
+
+    if (this.config.transport === 'http') {
+      // One MCP server per HTTP session, all sharing the same engines
+      this.httpTransport = new HttpTransportServer(
+        this.config.host,
+        this.config.port,
+        (sessionId) => this.createSessionServer(sessionId),
+        async () => ({ ready: await this.isIndexReady(), queues: this.getQueueStats() })
+      );
+      await this.httpTransport.listen();
+    } else {
+      this.server = this.createSessionServer(STDIO_SESSION_ID);
+      const transport = new StdioServerTransport();
+      await this.server.connect(transport);
+    }
+
+    logger.info('Foundation MCP Server started; indexing in the background');
+    this.indexing = this.indexWorkspaces(this.indexingController.signal);
+  }
+
+  /**
+   * Build every workspace's index, then start watching the checkouts. Runs
+   * after the transport connects, so clients can call tools that do not need
+   * the index meanwhile; the others wait for the build.
+   */
+  private async indexWorkspaces(signal: AbortSignal): Promise<void> {
+    const workspaces = await this.workspaces.list();
+    const results = await Promise.allSettled(
+      workspaces.map(workspace => workspace.indexer.buildIndex({ signal }))
+    );
+    if (signal.aborted) {
+      return;
     }
 
-    // Start server with stdio transport
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    results.forEach((result, position) => {
+      if (result.status === 'rejected') {
+        // The next request that needs this index retries the build
+        logger.error('Failed to build initial index', result.reason, {
+          version: workspaces[position].version,
+        });
+      }
+    });
+    logger.info('Initial index build finished', {
+      workspaces: workspaces.map(workspace => ({
+        version: workspace.version,
+        state: workspace.indexer.getStats().state,
+      })),
+    });
 
-    logger.info('Foundation MCP Server started successfully');
+    if (this.config.watch.enabled) {
+      for (const workspace of workspaces) {
+        const watcher = new RepositoryWatcher(
+          workspace.config,
+          workspace.indexer,
+          (changes) => this.notifyResourcesUpdated(changes, workspace)
+        );
+        await watcher.start();
+        this.watchers.push(watcher);
+      }
+    }
   }
 
   /**
@@ -136,7 +463,20 @@ export class FoundationMCPServer {
    */
   async stop(): Promise<void> {
     logger.info('Stopping Foundation MCP Server...');
-    await this.server.close();
+    this.indexingController.abort();
+    await this.indexing?.catch(error => logger.warn('Background indexing failed', { error: String(error) }));
+    await Promise.all(this.watchers.map(watcher => watcher.stop()));
+    this.watchers = [];
+    if (this.httpTransport) {
+      await this.httpTransport.close();
+      this.httpTransport = null;
+    }
+    if (this.server) {
+      await this.server.close();
+      this.server = null;
+    }
+    await this.parsePool.close();
+    await this.auditLog.flush();
     logger.info('Foundation MCP Server stopped');
   }
 }
@@ -0,0 +1,18 @@
+/**
+ * analyze_pattern tool
+ */
+
+import { AnalyzePatternSchema, AnalyzePatternOutputSchema } from '../types.js';
+import { defineTool, readSourceInput } from './registry.js';
+
+export const analyzePatternTool = defineTool({
+  name: 'analyze_pattern',
+  description: 'Analyze code against Foundation patterns',
+  schema: AnalyzePatternSchema,
+  outputSchema: AnalyzePatternOutputSchema,
+  priority: 3,
+  async handler(params, { services, files, context }) {
+    const code = await readSourceInput(params, files);
+    return services.pluginAnalyzer.analyzePattern({ code, patternType: params.patternType }, context);
+  },
+});
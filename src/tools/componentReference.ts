@@ -0,0 +1,33 @@
+/**
+ * get_component_reference tool
+ */
+
+import { GetComponentReferenceSchema, ComponentReferenceOutputSchema, NotFoundError } from '../types.js';
+import { defineTool } from './registry.js';
+
+export const componentReferenceTool = defineTool({
+  name: 'get_component_reference',
+  description: 'Get API reference for a specific component',
+  schema: GetComponentReferenceSchema,
+  outputSchema: ComponentReferenceOutputSchema,
+  priority: 10,
+  requiresIndex: true,
+  async handler({ slug }, { workspace, context }) {
+    const index = await workspace.indexer.buildIndex(context);
+    const component = index.components.find(c => c.slug === slug);
+
+    if (!component) {
+      throw new NotFoundError(`Component not found: ${slug}`, { slug });
+    }
+
+    return {
+      name: component.name,
+      slug: component.slug,
+      description: component.description,
+      mixins: component.mixins,
+      cssClasses: component.cssClasses,
+      documentation: component.docs,
+      scssPath: component.scssPath,
+    };
+  },
+});
@@ -0,0 +1,51 @@
+/**
+ * find_similar_pattern tool
+ */
+
+import {
+  FindSimilarPatternSchema,
+  FindSimilarPatternOutputSchema,
+  FoundationComponent,
+  FoundationPlugin,
+} from '../types.js';
+import { defineTool } from './registry.js';
+
+export const findSimilarPatternTool = defineTool({
+  name: 'find_similar_pattern',
+  description: 'Find similar code patterns in the codebase',
+  schema: FindSimilarPatternSchema,
+  outputSchema: FindSimilarPatternOutputSchema,
+  priority: 3,
+  requiresIndex: true,
+  async handler(params, { workspace, context }) {
+    const index = await workspace.indexer.buildIndex(context);
+
+    // Simple implementation: search by type and return top matches
+    let items: Array<FoundationPlugin | FoundationComponent> = [];
+
+    if (!params.type || params.type === 'plugin') {
+      items = [...items, ...index.plugins];
+    }
+    if (!params.type || params.type === 'component') {
+      items = [...items, ...index.components];
+    }
+
+    // Filter by query (basic text matching)
+    const query = params.query.toLowerCase();
+    const results = items
+      .filter(item => {
+        const searchText = `${item.name} ${item.description}`.toLowerCase();
+        return searchText.includes(query);
+      })
+      .slice(0, params.limit)
+      .map(item => ({
+        name: item.name,
+        path: item.type === 'plugin' ? item.path : item.scssPath,
+        similarity: 75, // Placeholder
+        relevantSnippets: [item.description],
+        documentation: item.docs,
+      }));
+
+    return { results };
+  },
+});
@@ -0,0 +1,20 @@
+/**
+ * generate_component tool
+ */
+
+import { GenerateComponentSchema, GenerateComponentOutputSchema } from '../types.js';
+import { defineTool, generatedFilePaths } from './registry.js';
+
+export const generateComponentTool = defineTool({
+  name: 'generate_component',
+  description: 'Generate a new Foundation Sass component',
+  schema: GenerateComponentSchema,
+  outputSchema: GenerateComponentOutputSchema,
+  priority: 5,
+  async handler(params, { services }) {
+    return services.componentGenerator.generate(params);
+  },
+  artifacts(result) {
+    return generatedFilePaths(result.files);
+  },
+});
@@ -0,0 +1,20 @@
+/**
+ * generate_plugin tool
+ */
+
+import { GeneratePluginSchema, GeneratePluginOutputSchema } from '../types.js';
+import { defineTool, generatedFilePaths } from './registry.js';
+
+export const generatePluginTool = defineTool({
+  name: 'generate_plugin',
+  description: 'Generate a new Foundation plugin with boilerplate code',
+  schema: GeneratePluginSchema,
+  outputSchema: GeneratePluginOutputSchema,
+  priority: 5,
+  async handler(params, { services }) {
+    return services.pluginGenerator.generate(params);
+  },
+  artifacts(result) {
+    return generatedFilePaths(result.files);
+  },
+});
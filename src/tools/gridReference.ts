@@ -0,0 +1,37 @@
+/**
+ * get_grid_reference tool
+ */
+
+import { GetGridReferenceSchema, GridReferenceOutputSchema, NotFoundError } from '../types.js';
+import { defineTool } from './registry.js';
+
+export const gridReferenceTool = defineTool({
+  name: 'get_grid_reference',
+  description: 'Get the XY or float grid API from its Sass sources: mixins with their parameters, grid variables, generated class patterns (cell, grid-x, {breakpoint}-{n}, ...) with examples, and the breakpoints that drive responsive classes',
+  schema: GetGridReferenceSchema,
+  outputSchema: GridReferenceOutputSchema,
+  priority: 10,
+  requiresIndex: true,
+  async handler({ slug }, { workspace, context }) {
+    const index = await workspace.indexer.buildIndex(context);
+    const grids = slug ? index.grids.filter(grid => grid.slug === slug) : index.grids;
+
+    if (slug && grids.length === 0) {
+      throw new NotFoundError(`Grid not found: ${slug}`, { slug });
+    }
+
+    return {
+      breakpoints: index.grids[0]?.breakpoints ?? [],
+      grids: grids.map(({ name, slug, description, scssPath, columns, mixins, variables, classes }) => ({
+        name,
+        slug,
+        description,
+        scssPath,
+        columns,
+        mixins,
+        variables,
+        classes,
+      })),
+    };
+  },
+});
@@ -0,0 +1,52 @@
+/**
+ * Built-in Foundation MCP tools
+ */
+
+import { generatePluginTool } from './generatePlugin.js';
+import { generateComponentTool } from './generateComponent.js';
+import { analyzePatternTool } from './analyzePattern.js';
+import { findSimilarPatternTool } from './findSimilarPattern.js';
+import { queryArchitectureTool } from './queryArchitecture.js';
+import { refactorToFoundationTool } from './refactorToFoundation.js';
+import { validatePluginTool } from './validatePlugin.js';
+import { pluginReferenceTool } from './pluginReference.js';
+import { componentReferenceTool } from './componentReference.js';
+import { settingsReferenceTool } from './settingsReference.js';
+import { sassApiReferenceTool } from './sassApiReference.js';
+import { gridReferenceTool } from './gridReference.js';
+import { wordpressIntegrationTool } from './wordpressIntegration.js';
+import { serverStatusTool } from './serverStatus.js';
+import { queryAuditLogTool } from './queryAuditLog.js';
+import { rebuildIndexTool } from './rebuildIndex.js';
+import { ToolDefinition, ToolRegistry } from './registry.js';
+
+export * from './registry.js';
+
+/**
+ * Built-in tools in tools/list order
+ */
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+  generatePluginTool,
+  generateComponentTool,
+  analyzePatternTool,
+  findSimilarPatternTool,
+  queryArchitectureTool,
+  refactorToFoundationTool,
+  validatePluginTool,
+  pluginReferenceTool,
+  componentReferenceTool,
+  settingsReferenceTool,
+  sassApiReferenceTool,
+  gridReferenceTool,
+  wordpressIntegrationTool,
+  serverStatusTool,
+  rebuildIndexTool,
+  queryAuditLogTool,
+];
+
+/**
+ * Registry holding the built-in tools
+ */
+export function createToolRegistry(): ToolRegistry {
+  return new ToolRegistry(BUILTIN_TOOLS);
+}
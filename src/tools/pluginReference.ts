@@ -0,0 +1,38 @@
+/**
+ * get_plugin_reference tool
+ */
+
+import { GetPluginReferenceSchema, PluginReferenceOutputSchema, NotFoundError } from '../types.js';
+import { pluginOptionsTable } from '../utils/markdown.js';
+import { defineTool } from './registry.js';
+
+export const pluginReferenceTool = defineTool({
+  name: 'get_plugin_reference',
+  description: 'Get API reference for a specific plugin: options and their data- attributes, public methods and fired events',
+  schema: GetPluginReferenceSchema,
+  outputSchema: PluginReferenceOutputSchema,
+  priority: 10,
+  requiresIndex: true,
+  async handler({ slug }, { workspace, context }) {
+    const index = await workspace.indexer.buildIndex(context);
+    const plugin = index.plugins.find(p => p.slug === slug);
+
+    if (!plugin) {
+      throw new NotFoundError(`Plugin not found: ${slug}`, { slug });
+    }
+
+    return {
+      name: plugin.name,
+      slug: plugin.slug,
+      description: plugin.description,
+      selector: plugin.selector,
+      className: plugin.className,
+      documentation: plugin.docs,
+      path: plugin.path,
+      options: plugin.options,
+      optionsTable: pluginOptionsTable(plugin.options),
+      methods: plugin.methods,
+      events: plugin.events,
+    };
+  },
+});
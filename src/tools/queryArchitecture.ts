@@ -0,0 +1,57 @@
+/**
+ * query_architecture tool
+ */
+
+import { QueryArchitectureSchema, QueryArchitectureOutputSchema, QueryArchitectureResult } from '../types.js';
+import { defineTool } from './registry.js';
+
+export const queryArchitectureTool = defineTool({
+  name: 'query_architecture',
+  description: 'Query Foundation architecture and patterns',
+  schema: QueryArchitectureSchema,
+  outputSchema: QueryArchitectureOutputSchema,
+  priority: 8,
+  async handler(params) {
+    // Simple implementation: return architecture guide
+    return getArchitectureAnswer(params.question);
+  },
+});
+
+/**
+ * Get architecture answer
+ */
+function getArchitectureAnswer(question: string): QueryArchitectureResult {
+  const lowerQuestion = question.toLowerCase();
+
+  if (lowerQuestion.includes('keyboard')) {
+    return {
+      answer: 'Foundation plugins handle keyboard events using the Keyboard utility. Import it and register key handlers.',
+      examples: [
+        {
+          file: 'js/foundation.accordion.js',
+          snippet: "Keyboard.register('Accordion', { 'ENTER': 'toggle' });",
+        },
+      ],
+      relatedTopics: ['Accessibility', 'Event Handling'],
+    };
+  }
+
+  if (lowerQuestion.includes('event')) {
+    return {
+      answer: 'Foundation plugins use namespaced events with .zf.pluginname format.',
+      examples: [
+        {
+          file: 'js/foundation.reveal.js',
+          snippet: "this.$element.trigger('open.zf.reveal');",
+        },
+      ],
+      relatedTopics: ['jQuery Events', 'Plugin Lifecycle'],
+    };
+  }
+
+  return {
+    answer: 'Please refer to the Foundation documentation for detailed architecture guidance.',
+    examples: [],
+    relatedTopics: ['Plugin Development', 'Component Styling'],
+  };
+}
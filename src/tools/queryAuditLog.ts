@@ -0,0 +1,30 @@
+/**
+ * query_audit_log tool
+ */
+
+import { QueryAuditLogSchema, QueryAuditLogOutputSchema, ValidationError } from '../types.js';
+import { defineTool } from './registry.js';
+
+export const queryAuditLogTool = defineTool({
+  name: 'query_audit_log',
+  description: "List recent tool calls and resource reads from the audit log, newest first; only the caller's session unless the server allows cross-session queries",
+  schema: QueryAuditLogSchema,
+  outputSchema: QueryAuditLogOutputSchema,
+  priority: 10,
+  async handler({ version: _version, session, ...filter }, { services, sessionId }) {
+    const { auditLog } = services;
+    const requested = session ?? sessionId;
+
+    // Entries carry other clients' arguments and generated file paths
+    if (requested !== sessionId && !auditLog.crossSessionQueries) {
+      throw new ValidationError("Querying other sessions' audit entries is disabled (audit.crossSessionQueries)", {
+        session: requested,
+      });
+    }
+
+    return {
+      enabled: auditLog.enabled,
+      entries: await auditLog.query({ ...filter, session: requested === '*' ? undefined : requested }),
+    };
+  },
+});
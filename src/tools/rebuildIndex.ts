@@ -0,0 +1,28 @@
+/**
+ * rebuild_index tool
+ */
+
+import { RebuildIndexSchema, RebuildIndexOutputSchema } from '../types.js';
+import { defineTool } from './registry.js';
+
+export const rebuildIndexTool = defineTool({
+  name: 'rebuild_index',
+  description: 'Re-parse every file of a Foundation checkout, discarding the cached index and on-disk snapshot',
+  schema: RebuildIndexSchema,
+  outputSchema: RebuildIndexOutputSchema,
+  priority: 1,
+  async handler(_params, { workspace, context }) {
+    const startedAt = Date.now();
+    await workspace.indexer.rebuildIndex(context);
+    const stats = workspace.indexer.getStats();
+
+    return {
+      version: workspace.version,
+      state: stats.state,
+      durationMs: Date.now() - startedAt,
+      parsedFiles: stats.parsedFiles,
+      counts: stats.counts,
+      failedFiles: stats.failedFiles,
+    };
+  },
+});
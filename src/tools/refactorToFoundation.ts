@@ -0,0 +1,23 @@
+/**
+ * refactor_to_foundation tool
+ */
+
+import { RefactorToFoundationSchema, RefactorToFoundationOutputSchema } from '../types.js';
+import { defineTool } from './registry.js';
+
+export const refactorToFoundationTool = defineTool({
+  name: 'refactor_to_foundation',
+  description: 'Analyze code and suggest Foundation refactoring strategy',
+  schema: RefactorToFoundationSchema,
+  outputSchema: RefactorToFoundationOutputSchema,
+  priority: 1,
+  requiresIndex: true,
+  async handler(params, { workspace, context }) {
+    return workspace.refactoringAnalyzer.analyzeForRefactoring(
+      params.sourceCode,
+      params.sourceType,
+      params.foundationTarget,
+      context
+    );
+  },
+});
@@ -0,0 +1,175 @@
+/**
+ * Declarative tool registry for Foundation MCP Server
+ */
+
+import { z } from 'zod';
+import { OperationContext, ValidationError } from '../types.js';
+import type { FoundationWorkspace } from '../engines/WorkspaceManager.js';
+import type { PluginAnalyzer } from '../engines/PluginAnalyzer.js';
+import type { PluginGenerator } from '../generators/PluginGenerator.js';
+import type { ComponentGenerator } from '../generators/ComponentGenerator.js';
+import type { StatusHandler } from '../handlers/status.js';
+import type { AuditLog } from '../utils/auditLog.js';
+import { JsonSchema, zodToJsonSchema } from '../utils/jsonSchema.js';
+import type { SessionFiles } from '../utils/pathSandbox.js';
+
+/**
+ * Scheduling priority of tools that do not declare one
+ */
+export const DEFAULT_TOOL_PRIORITY = 5;
+
+/**
+ * Engines shared by every tool
+ */
+export interface ToolServices {
+  pluginAnalyzer: PluginAnalyzer;
+  pluginGenerator: PluginGenerator;
+  componentGenerator: ComponentGenerator;
+  statusHandler: StatusHandler;
+  auditLog: AuditLog;
+}
+
+/**
+ * Everything a tool handler receives besides its arguments
+ */
+export interface ToolInvocation {
+  /** Foundation checkout selected by the `version` argument */
+  workspace: FoundationWorkspace;
+  services: ToolServices;
+  /** File access limited to the calling session's workspace roots */
+  files: SessionFiles;
+  /** Session the call came from */
+  sessionId: string;
+  context: OperationContext;
+}
+
+/**
+ * Paths of the files in a generator result
+ */
+export function generatedFilePaths(files: Record<string, { path: string } | undefined>): string[] {
+  return Object.values(files).flatMap(file => (file ? [file.path] : []));
+}
+
+/**
+ * Source code from a tool's `code` or `path` argument; exactly one must be set
+ */
+export async function readSourceInput(
+  params: { code?: string; path?: string },
+  files: SessionFiles
+): Promise<string> {
+  if (params.code !== undefined && params.path !== undefined) {
+    throw new ValidationError('Pass either code or path, not both', { arguments: ['code', 'path'] });
+  }
+  if (params.path !== undefined) {
+    return files.readFile(params.path);
+  }
+  if (params.code === undefined) {
+    throw new ValidationError('Either code or path is required', { arguments: ['code', 'path'] });
+  }
+  return params.code;
+}
+
+export interface ToolDefinition<
+  Input extends z.AnyZodObject = z.AnyZodObject,
+  Output extends z.AnyZodObject = z.AnyZodObject,
+> {
+  name: string;
+  description: string;
+  /** Validates arguments; the MCP inputSchema is derived from it */
+  schema: Input;
+  /** Shape of the JSON result, published as the MCP outputSchema */
+  outputSchema: Output;
+  /**
+   * Scheduling priority. Quick lookups jump ahead of heavy analysis when
+   * the tool queue is saturated.
+   */
+  priority?: number;
+  /**
+   * Whether the handler reads the Foundation index. Until the first build
+   * finishes such calls wait up to performance.indexWaitMs, then fail with
+   * INDEX_WARMING_UP; other tools run right away.
+   */
+  requiresIndex?: boolean;
+  handler(params: z.infer<Input>, invocation: ToolInvocation): Promise<z.infer<Output>>;
+  /** Paths of the files a result generates, recorded in the audit log */
+  artifacts?(result: z.infer<Output>): string[];
+}
+
+/**
+ * Tool entry as returned by tools/list
+ */
+export interface ToolListing {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: 'object' };
+  outputSchema: JsonSchema & { type: 'object' };
+}
+
+/**
+ * Declare a tool, inferring handler types from its schemas
+ */
+export function defineTool<Input extends z.AnyZodObject, Output extends z.AnyZodObject>(
+  definition: ToolDefinition<Input, Output>
+): ToolDefinition<Input, Output> {
+  return definition;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+  private listings = new Map<string, ToolListing>();
+
+  constructor(tools: ToolDefinition[] = []) {
+    tools.forEach(tool => this.register(tool));
+  }
+
+  /**
+   * Add a tool; names must be unique
+   */
+  register(tool: ToolDefinition): void {
+    if (this.tools.has(tool.name)) {
+      throw new ValidationError(`Tool already registered: ${tool.name}`, { tool: tool.name });
+    }
+    this.tools.set(tool.name, tool);
+    this.listings.delete(tool.name);
+  }
+
+  /**
+   * Look up a tool by name
+   */
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * All registered tools in registration order
+   */
+  list(): ToolDefinition[] {
+    return [...this.tools.values()];
+  }
+
+  /**
+   * Tool listings with JSON Schemas derived from the zod schemas
+   */
+  describe(): ToolListing[] {
+    return this.list().map(tool => {
+      let listing = this.listings.get(tool.name);
+      if (!listing) {
+        listing = {
+          name: tool.name,
+          description: tool.description,
+          inputSchema: zodToJsonSchema(tool.schema),
+          outputSchema: zodToJsonSchema(tool.outputSchema),
+        };
+        this.listings.set(tool.name, listing);
+      }
+      return listing;
+    });
+  }
+
+  /**
+   * Scheduling priority of a tool
+   */
+  priorityOf(name: string): number {
+    return this.tools.get(name)?.priority ?? DEFAULT_TOOL_PRIORITY;
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * get_sass_api_reference tool
+ */
+
+import { GetSassApiReferenceSchema, NotFoundError, SassApiReferenceOutputSchema } from '../types.js';
+import { defineTool } from './registry.js';
+
+export const sassApiReferenceTool = defineTool({
+  name: 'get_sass_api_reference',
+  description: 'Look up Foundation Sass functions and mixins from scss/util (e.g., rem-calc, breakpoint): signature, parameters with defaults and types, return type and SassDoc description',
+  schema: GetSassApiReferenceSchema,
+  outputSchema: SassApiReferenceOutputSchema,
+  priority: 10,
+  requiresIndex: true,
+  async handler({ name, kind, query }, { workspace, context }) {
+    const index = await workspace.indexer.buildIndex(context);
+    const needle = query?.toLowerCase();
+
+    const entries = index.sassApi.filter(entry =>
+      (!name || entry.name === name.replace(/^@/, '')) &&
+      (!kind || entry.kind === kind) &&
+      (!needle ||
+        entry.name.toLowerCase().includes(needle) ||
+        entry.description.toLowerCase().includes(needle))
+    );
+
+    if (name && entries.length === 0) {
+      throw new NotFoundError(`Sass function or mixin not found: ${name}`, { name });
+    }
+
+    return {
+      total: entries.length,
+      entries,
+    };
+  },
+});
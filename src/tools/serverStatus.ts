@@ -0,0 +1,17 @@
+/**
+ * get_server_status tool
+ */
+
+import { GetServerStatusSchema, ServerStatusOutputSchema } from '../types.js';
+import { defineTool } from './registry.js';
+
+export const serverStatusTool = defineTool({
+  name: 'get_server_status',
+  description: 'Report index build stats, parse failures, cache hit rate, tool latency and active config',
+  schema: GetServerStatusSchema,
+  outputSchema: ServerStatusOutputSchema,
+  priority: 10,
+  async handler(_params, { services }) {
+    return services.statusHandler.getStatus();
+  },
+});
@@ -0,0 +1,33 @@
+/**
+ * get_settings_reference tool
+ */
+
+import { GetSettingsReferenceSchema, SettingsReferenceOutputSchema } from '../types.js';
+import { defineTool } from './registry.js';
+
+export const settingsReferenceTool = defineTool({
+  name: 'get_settings_reference',
+  description: 'Look up Foundation Sass settings: default value, SassDoc type and description, owning component and _settings.scss section',
+  schema: GetSettingsReferenceSchema,
+  outputSchema: SettingsReferenceOutputSchema,
+  priority: 10,
+  requiresIndex: true,
+  async handler({ component, section, query }, { workspace, context }) {
+    const index = await workspace.indexer.buildIndex(context);
+    const needle = query?.toLowerCase();
+
+    const settings = index.settings.filter(setting =>
+      (!component || setting.component === component) &&
+      (!section || setting.section?.toLowerCase() === section.toLowerCase()) &&
+      (!needle ||
+        setting.name.toLowerCase().includes(needle) ||
+        setting.description.toLowerCase().includes(needle))
+    );
+
+    return {
+      settingsFile: 'scss/settings/_settings.scss',
+      total: settings.length,
+      settings,
+    };
+  },
+});
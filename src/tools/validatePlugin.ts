@@ -0,0 +1,31 @@
+/**
+ * validate_plugin tool
+ */
+
+import { ValidatePluginSchema, ValidatePluginOutputSchema } from '../types.js';
+import { defineTool, readSourceInput } from './registry.js';
+
+export const validatePluginTool = defineTool({
+  name: 'validate_plugin',
+  description: 'Validate plugin code against Foundation standards',
+  schema: ValidatePluginSchema,
+  outputSchema: ValidatePluginOutputSchema,
+  priority: 3,
+  async handler(params, { services, files, context }) {
+    const result = await services.pluginAnalyzer.analyzePattern({
+      code: await readSourceInput(params, files),
+      patternType: 'plugin',
+    }, context);
+
+    return {
+      valid: result.matches === 'matches',
+      errors: result.issues.filter(i => i.severity === 'error').map(i => i.message),
+      warnings: result.issues.filter(i => i.severity === 'warning').map(i => i.message),
+      coverage: {
+        required_methods: result.conformance.architecture,
+        event_handling: result.conformance.conventions,
+        accessibility: result.conformance.accessibility,
+      },
+    };
+  },
+});
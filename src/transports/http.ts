@@ -0,0 +1,180 @@
+/**
+ * HTTP transport for Foundation MCP Server
+ *
+ * Serves MCP over HTTP with Server-Sent Events. Each client opens its own
+ * SSE stream and gets a dedicated session with its own MCP server instance.
+ */
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { logger } from '../utils/logger.js';
+
+export const SSE_PATH = '/sse';
+export const MESSAGES_PATH = '/messages';
+export const HEALTH_PATH = '/health';
+
+/**
+ * Factory that creates an MCP server bound to a single session
+ */
+export type SessionServerFactory = (sessionId: string) => Server;
+
+/**
+ * Extra diagnostics merged into the health check response
+ */
+export type HealthStatusProvider = () => Record<string, unknown> | Promise<Record<string, unknown>>;
+
+interface HttpSession {
+  transport: SSEServerTransport;
+  server: Server;
+}
+
+export class HttpTransportServer {
+  private host: string;
+  private port: number;
+  private createSessionServer: SessionServerFactory;
+  private getHealthStatus: HealthStatusProvider;
+  private sessions = new Map<string, HttpSession>();
+  private httpServer: http.Server | null = null;
+
+  constructor(
+    host: string,
+    port: number,
+    createSessionServer: SessionServerFactory,
+    getHealthStatus: HealthStatusProvider = () => ({})
+  ) {
+    this.host = host;
+    this.port = port;
+    this.createSessionServer = createSessionServer;
+    this.getHealthStatus = getHealthStatus;
+  }
+
+  /**
+   * Start listening for HTTP connections
+   */
+  async listen(): Promise<void> {
+    this.httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        logger.error('HTTP request failed', error, { method: req.method, url: req.url });
+        if (!res.headersSent) {
+          this.sendJson(res, 500, { error: 'Internal server error' });
+        } else {
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.port, this.host, () => {
+        this.httpServer!.off('error', reject);
+        resolve();
+      });
+    });
+
+    logger.info(`HTTP transport listening on http://${this.host}:${this.port}${SSE_PATH}`);
+  }
+
+  /**
+   * Close all sessions and stop listening
+   */
+  async close(): Promise<void> {
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.all(sessions.map(session => session.server.close()));
+
+    if (this.httpServer) {
+      const closed = new Promise<void>((resolve) => this.httpServer!.close(() => resolve()));
+      // Ended SSE streams leave keep-alive sockets that would hold close() open
+      this.httpServer.closeAllConnections();
+      await closed;
+      this.httpServer = null;
+    }
+  }
+
+  /**
+   * Number of connected sessions
+   */
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Route an incoming HTTP request
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (req.method === 'GET' && url.pathname === SSE_PATH) {
+      return this.openSession(res);
+    }
+
+    if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+      return this.handleMessage(url.searchParams.get('sessionId'), req, res);
+    }
+
+    if (req.method === 'GET' && url.pathname === HEALTH_PATH) {
+      return this.sendJson(res, 200, {
+        status: 'ok',
+        sessions: this.sessions.size,
+        ...(await this.getHealthStatus()),
+      });
+    }
+
+    this.sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+  }
+
+  /**
+   * Open a new SSE stream and connect a dedicated MCP server to it
+   */
+  private async openSession(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    const sessionId = transport.sessionId;
+    const server = this.createSessionServer(sessionId);
+
+    this.sessions.set(sessionId, { transport, server });
+
+    const onSessionClose = server.onclose;
+    server.onclose = () => {
+      onSessionClose?.();
+      if (this.sessions.delete(sessionId)) {
+        logger.info('HTTP session closed', { sessionId, sessions: this.sessions.size });
+      }
+    };
+
+    res.on('close', () => {
+      if (this.sessions.has(sessionId)) {
+        server.close().catch((error) => logger.error('Failed to close session', error, { sessionId }));
+      }
+    });
+
+    await server.connect(transport);
+    logger.info('HTTP session opened', { sessionId, sessions: this.sessions.size });
+  }
+
+  /**
+   * Forward a client message to its session
+   */
+  private async handleMessage(
+    sessionId: string | null,
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+
+    if (!session) {
+      this.sendJson(res, 404, { error: `Unknown session: ${sessionId ?? '(missing)'}` });
+      return;
+    }
+
+    await session.transport.handlePostMessage(req, res);
+  }
+
+  /**
+   * Write a JSON response
+   */
+  private sendJson(res: ServerResponse, status: number, body: object): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
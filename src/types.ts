@@ -8,6 +8,55 @@ import { z } from 'zod';
 // Plugin Types
 // ============================================================================
 
+/**
+ * An entry of a plugin's `Plugin.defaults`
+ */
+export interface PluginOption {
+  name: string;
+  /** JSDoc `@type`, or inferred from the default value */
+  type: string;
+  /** JSDoc `@default`, or the default value's source */
+  default: string;
+  description: string;
+  /** Markup form, e.g. `data-slide-speed` for `slideSpeed` */
+  dataAttribute: string;
+  example?: string;
+}
+
+export interface PluginMethodParam {
+  name: string;
+  type?: string;
+  description?: string;
+  optional: boolean;
+  /** Source of the default value */
+  default?: string;
+}
+
+/**
+ * A public method of a plugin class
+ */
+export interface PluginMethod {
+  name: string;
+  /** e.g. `toggle($target)` */
+  signature: string;
+  params: PluginMethodParam[];
+  description: string;
+  /** JSDoc `@returns` type */
+  returns?: string;
+}
+
+/**
+ * An event a plugin fires with `.trigger()`
+ */
+export interface PluginEvent {
+  /** Namespaced event name, e.g. `down.zf.accordion` */
+  name: string;
+  /** From the JSDoc block carrying `@event` */
+  description: string;
+  /** Receivers of the `.trigger()` calls, e.g. `this.$element` */
+  firedFrom: string[];
+}
+
 export interface FoundationPlugin {
   name: string;
   slug: string;
@@ -19,6 +68,11 @@ export interface FoundationPlugin {
   supportsNesting: boolean;
   deprecatedInVersion: string | null;
   docs: string;
+  /** Slug of the `docs/pages` page documenting the plugin */
+  docsPage: string | null;
+  options: PluginOption[];
+  methods: PluginMethod[];
+  events: PluginEvent[];
 }
 
 export interface FoundationComponent {
@@ -30,6 +84,10 @@ export interface FoundationComponent {
   mixins: string[];
   cssClasses: string[];
   docs: string;
+  /** Slug of the `docs/pages` page documenting the component */
+  docsPage: string | null;
+  /** Top-level `!default` variables */
+  settings: SassVariable[];
 }
 
 export interface FoundationUtility {
@@ -40,12 +98,226 @@ export interface FoundationUtility {
   exports: string[];
 }
 
+// ============================================================================
+// Settings Types
+// ============================================================================
+
+/**
+ * A top-level Sass variable declaration with its SassDoc
+ */
+export interface SassVariable {
+  /** Including the `$` */
+  name: string;
+  /** Value without `!default` or `!global` */
+  value: string;
+  isDefault: boolean;
+  /** SassDoc `@type` */
+  type: string | null;
+  description: string;
+  /** Heading of the `// 1. Global` style section the variable is declared under */
+  section: string | null;
+}
+
+/**
+ * Variables of `scss/settings/_settings.scss`
+ */
+export interface FoundationSettingsFile {
+  path: string;
+  variables: SassVariable[];
+}
+
+/**
+ * A Sass setting, merged from the settings file and the component that
+ * declares it with `!default`
+ */
+export interface FoundationSetting {
+  name: string;
+  /** The component's `!default` value, else the settings file value */
+  default: string;
+  type: string | null;
+  description: string;
+  /** Slug of the owning component; null for global settings */
+  component: string | null;
+  /** Settings file section, e.g. `Global` or `Button` */
+  section: string | null;
+}
+
+// ============================================================================
+// Sass API Types
+// ============================================================================
+
+/**
+ * A parameter of a Sass function or mixin
+ */
+export interface SassParameter {
+  /** Including the `$`; `...` marks an argument list */
+  name: string;
+  /** Default from the signature, else the SassDoc `[default]` */
+  default: string | null;
+  /** SassDoc `@param` type, e.g. `Number|List` */
+  type: string | null;
+  description: string;
+}
+
+/**
+ * A top-level `@function` or `@mixin` with its SassDoc
+ */
+export interface SassCallable {
+  name: string;
+  kind: 'function' | 'mixin';
+  /** As declared, e.g. `rem-calc($values, $base: null)` */
+  signature: string;
+  params: SassParameter[];
+  /** SassDoc `@return` type; null when undocumented and for mixins */
+  returns: string | null;
+  description: string;
+  /** `@access private`, or a name starting with `-` */
+  isPrivate: boolean;
+}
+
+/**
+ * A function or mixin of the Sass API catalog
+ */
+export interface FoundationSassApiEntry extends SassCallable {
+  /** Declaring file, relative to the repository */
+  file: string;
+}
+
+/**
+ * Functions and mixins of one `scss/util` file
+ */
+export interface FoundationSassFile {
+  path: string;
+  callables: FoundationSassApiEntry[];
+}
+
+// ============================================================================
+// Grid Types
+// ============================================================================
+
+/**
+ * A class a stylesheet generates. Interpolations become placeholders:
+ * `{breakpoint}` for breakpoint names, `{n}` for `@for` counters.
+ */
+export interface SassClassPattern {
+  /** e.g. `cell`, `{breakpoint}-{n}` */
+  pattern: string;
+  /** Named per breakpoint, or emitted inside a breakpoint media query */
+  responsive: boolean;
+  /** Mixin whose output contains the class; null at the top level */
+  mixin: string | null;
+}
+
+/**
+ * A grid class pattern with concrete class names
+ */
+export interface GridClassPattern extends SassClassPattern {
+  /** e.g. `small-6`, `medium-6`; empty for literal class names */
+  examples: string[];
+}
+
+/**
+ * A breakpoint from `$breakpoints`
+ */
+export interface GridBreakpoint {
+  name: string;
+  /** e.g. `640px` */
+  minWidth: string;
+  /** Listed in `$breakpoint-classes`, so sized classes are generated for it */
+  hasClasses: boolean;
+}
+
+/**
+ * Mixins, variables and generated classes of one grid source file
+ */
+export interface FoundationGridFile {
+  path: string;
+  mixins: FoundationSassApiEntry[];
+  variables: SassVariable[];
+  classes: SassClassPattern[];
+}
+
 export interface FoundationGrid {
   name: string;
   slug: string;
   type: 'grid-system';
   scssPath: string;
   description: string;
+  /** Number of columns the sized classes go up to */
+  columns: number;
+  mixins: FoundationSassApiEntry[];
+  /** `!default` variables of the grid sources */
+  variables: SassVariable[];
+  classes: GridClassPattern[];
+  breakpoints: GridBreakpoint[];
+}
+
+// ============================================================================
+// Documentation Types
+// ============================================================================
+
+/**
+ * Front-matter fields of a docs page
+ */
+export interface DocsFrontMatter {
+  title: string | null;
+  description: string | null;
+  /** Sass sources the page documents, relative to the repository */
+  sass: string[];
+  /** JavaScript sources the page documents, relative to the repository */
+  js: string[];
+  tags: string[];
+}
+
+export interface DocsHeading {
+  level: number;
+  text: string;
+  /** Fragment id, e.g. `basics` */
+  anchor: string;
+}
+
+/**
+ * Markdown under a level 2 heading, subsections included. The text before
+ * the first heading is a section without one.
+ */
+export interface DocsSection {
+  heading: string | null;
+  content: string;
+}
+
+/**
+ * A fenced code block
+ */
+export interface DocsCodeExample {
+  /** Fence info, e.g. `html_example` or `scss`; null when absent */
+  language: string | null;
+  code: string;
+  /** Heading of the section it appears in */
+  section: string | null;
+}
+
+export interface ParsedDocPage {
+  frontMatter: DocsFrontMatter;
+  headings: DocsHeading[];
+  sections: DocsSection[];
+  examples: DocsCodeExample[];
+  /** Markdown after the front-matter */
+  body: string;
+}
+
+/**
+ * A `docs/pages` page linked to what it documents
+ */
+export interface FoundationDocPage extends ParsedDocPage {
+  slug: string;
+  path: string;
+  title: string;
+  /** https://get.foundation page built from it */
+  url: string;
+  /** Slugs of the plugins it documents, from its `js` front-matter or its own slug */
+  plugins: string[];
+  /** Slugs of the components it documents, from its `sass` front-matter or its own slug */
+  components: string[];
 }
 
 // ============================================================================
@@ -57,12 +329,71 @@ export interface FoundationIndex {
   components: FoundationComponent[];
   utilities: FoundationUtility[];
   grids: FoundationGrid[];
+  settings: FoundationSetting[];
+  sassApi: FoundationSassApiEntry[];
+  docs: FoundationDocPage[];
+}
+
+/**
+ * A repository file the indexer could not parse
+ */
+export interface IndexFailure {
+  path: string;
+  kind: 'plugin' | 'component' | 'utility' | 'settings' | 'sass' | 'grid' | 'docs';
+  error: string;
+}
+
+/**
+ * Readiness of a workspace index: `pending` before the first build,
+ * `partial` when source directories were missing, `failed` when the last
+ * build threw (the next request retries)
+ */
+export type IndexState = 'pending' | 'building' | 'ready' | 'partial' | 'failed';
+
+/**
+ * What the last index build or re-index produced
+ */
+export interface IndexStats {
+  state: IndexState;
+  /** Source directories, relative to the repository, absent at the last build */
+  missingDirectories: string[];
+  /** Message of the last failed build */
+  error?: string;
+  /** Latest progress of a running build */
+  progress?: ProgressUpdate;
+  /** Files the last full build parsed, and files it reused from the snapshot */
+  parsedFiles: number;
+  reusedFiles: number;
+  builtAt: string | null;
+  buildDurationMs: number | null;
+  updatedAt: string | null;
+  counts: Record<keyof FoundationIndex, number> | null;
+  failedFiles: IndexFailure[];
+}
+
+/**
+ * Slugs touched by an incremental re-index, grouped by index section
+ */
+export interface IndexChangeSet {
+  plugins: string[];
+  components: string[];
+  utilities: string[];
+  docs: string[];
+  /** `settings` when the settings catalog changed */
+  settings: string[];
+  /** `scss/util` file names, e.g. `unit` */
+  sassApi: string[];
+  /** Grid slugs, e.g. `xy-grid` */
+  grids: string[];
 }
 
 // ============================================================================
 // Tool Parameter Types
 // ============================================================================
 
+export const VersionSchema = z.string().min(1).optional()
+  .describe('Foundation version to use (e.g., 6.7); defaults to the primary checkout');
+
 export const GeneratePluginSchema = z.object({
   name: z.string().min(1).describe('Plugin name (e.g., MyAccordion)'),
   slug: z.string().min(1).describe('Kebab-case slug (e.g., my-accordion)'),
@@ -76,6 +407,8 @@ export const GeneratePluginSchema = z.object({
   }).optional(),
   includeTests: z.boolean().default(true).describe('Generate test file'),
   includeDocs: z.boolean().default(true).describe('Generate documentation'),
+  template: z.string().min(1).optional().describe('Plugin template registered by an extension'),
+  version: VersionSchema,
 });
 
 export type GeneratePluginParams = z.infer<typeof GeneratePluginSchema>;
@@ -90,9 +423,11 @@ export const GenerateComponentSchema = z.object({
     type: z.string().describe('Color, Number, String, etc'),
     defaultValue: z.any(),
   })).optional().describe('Sass variables'),
-  includeTests: z.boolean().default(true),
-  includeDocs: z.boolean().default(true),
-  grid: z.enum(['xy-grid', 'float-grid', 'both']).default('xy-grid'),
+  includeTests: z.boolean().default(true).describe('Generate test file'),
+  includeDocs: z.boolean().default(true).describe('Generate documentation'),
+  grid: z.enum(['xy-grid', 'float-grid', 'both']).default('xy-grid').describe('Grid system'),
+  template: z.string().min(1).optional().describe('Component template registered by an extension'),
+  version: VersionSchema,
 });
 
 export type GenerateComponentParams = z.infer<typeof GenerateComponentSchema>;
@@ -112,24 +447,36 @@ export const GenerateTestSuiteSchema = z.object({
 
 export type GenerateTestSuiteParams = z.infer<typeof GenerateTestSuiteSchema>;
 
+/**
+ * Source arguments: inline code, or a file inside a workspace root. Exactly
+ * one is required.
+ */
+const SourceInputShape = {
+  code: z.string().optional().describe('Source code; pass this or path'),
+  path: z.string().optional().describe('File to read instead of code, inside a workspace root (client roots or the Foundation repository)'),
+};
+
 export const AnalyzePatternSchema = z.object({
-  code: z.string().describe('Code snippet or file path'),
-  patternType: z.enum(['plugin', 'component', 'utility', 'test']),
+  ...SourceInputShape,
+  patternType: z.enum(['plugin', 'component', 'utility', 'test']).describe('Type of code'),
+  version: VersionSchema,
 });
 
 export type AnalyzePatternParams = z.infer<typeof AnalyzePatternSchema>;
 
 export const FindSimilarPatternSchema = z.object({
   query: z.string().describe('Description of pattern to find'),
-  type: z.enum(['plugin', 'component', 'utility', 'test']).optional(),
-  limit: z.number().min(1).max(20).default(5),
+  type: z.enum(['plugin', 'component', 'utility', 'test']).optional().describe('Pattern type'),
+  limit: z.number().min(1).max(20).default(5).describe('Maximum results'),
+  version: VersionSchema,
 });
 
 export type FindSimilarPatternParams = z.infer<typeof FindSimilarPatternSchema>;
 
 export const QueryArchitectureSchema = z.object({
   question: z.string().describe('Architecture question'),
-  context: z.enum(['plugin', 'component', 'build', 'testing']).optional(),
+  context: z.enum(['plugin', 'component', 'build', 'testing']).optional().describe('Query context'),
+  version: VersionSchema,
 });
 
 export type QueryArchitectureParams = z.infer<typeof QueryArchitectureSchema>;
@@ -141,6 +488,7 @@ export const WordPressIntegrationSchema = z.object({
   enableMotionUI: z.boolean().default(true).describe('Include Motion UI guidance'),
   enableBlockEditor: z.boolean().default(false).describe('Include WordPress block editor compatibility notes'),
   enqueueJQuery: z.boolean().default(true).describe('Ensure jQuery dependency is enqueued before Foundation scripts'),
+  version: VersionSchema,
 });
 
 export type WordPressIntegrationParams = z.infer<typeof WordPressIntegrationSchema>;
@@ -149,6 +497,7 @@ export const RefactorToFoundationSchema = z.object({
   sourceCode: z.string().describe('Code to refactor'),
   sourceType: z.enum(['custom-plugin', 'custom-component']).describe('Type of code'),
   foundationTarget: z.string().optional().describe('Specific Foundation component to migrate to'),
+  version: VersionSchema,
 });
 
 export type RefactorToFoundationParams = z.infer<typeof RefactorToFoundationSchema>;
@@ -161,14 +510,15 @@ export const GetDependencyMapSchema = z.object({
 export type GetDependencyMapParams = z.infer<typeof GetDependencyMapSchema>;
 
 export const ValidatePluginSchema = z.object({
-  code: z.string().describe('Code or file path'),
+  ...SourceInputShape,
   strict: z.boolean().default(false).describe('Enforce all best practices'),
+  version: VersionSchema,
 });
 
 export type ValidatePluginParams = z.infer<typeof ValidatePluginSchema>;
 
 export const ValidateComponentScssSchema = z.object({
-  code: z.string().describe('SCSS code or file path'),
+  ...SourceInputShape,
 });
 
 export type ValidateComponentScssParams = z.infer<typeof ValidateComponentScssSchema>;
@@ -180,106 +530,359 @@ export const CheckAccessibilitySchema = z.object({
 
 export type CheckAccessibilityParams = z.infer<typeof CheckAccessibilitySchema>;
 
+export const GetPluginReferenceSchema = z.object({
+  slug: z.string().min(1).describe('Plugin slug (e.g., accordion)'),
+  version: VersionSchema,
+});
+
+export type GetPluginReferenceParams = z.infer<typeof GetPluginReferenceSchema>;
+
+export const GetComponentReferenceSchema = z.object({
+  slug: z.string().min(1).describe('Component slug (e.g., button)'),
+  version: VersionSchema,
+});
+
+export type GetComponentReferenceParams = z.infer<typeof GetComponentReferenceSchema>;
+
+export const GetSettingsReferenceSchema = z.object({
+  component: z.string().min(1).optional().describe('Only settings owned by this component slug (e.g., button)'),
+  section: z.string().min(1).optional().describe('Only settings in this _settings.scss section (e.g., Global)'),
+  query: z.string().min(1).optional().describe('Case-insensitive match on the name or description'),
+  version: VersionSchema,
+});
+
+export type GetSettingsReferenceParams = z.infer<typeof GetSettingsReferenceSchema>;
+
+export const GetSassApiReferenceSchema = z.object({
+  name: z.string().min(1).optional().describe('Exact function or mixin name (e.g., rem-calc)'),
+  kind: z.enum(['function', 'mixin']).optional().describe('Only functions or only mixins'),
+  query: z.string().min(1).optional().describe('Case-insensitive match on the name or description'),
+  version: VersionSchema,
+});
+
+export type GetSassApiReferenceParams = z.infer<typeof GetSassApiReferenceSchema>;
+
+export const GetGridReferenceSchema = z.object({
+  slug: z.string().min(1).optional().describe('Grid slug (xy-grid or float-grid); all grids when omitted'),
+  version: VersionSchema,
+});
+
+export type GetGridReferenceParams = z.infer<typeof GetGridReferenceSchema>;
+
+export const GetServerStatusSchema = z.object({
+  version: VersionSchema,
+});
+
+export const RebuildIndexSchema = z.object({
+  version: VersionSchema,
+});
+
+export type RebuildIndexParams = z.infer<typeof RebuildIndexSchema>;
+
+export const QueryAuditLogSchema = z.object({
+  limit: z.number().int().min(1).max(500).default(50).describe('Maximum entries, newest first'),
+  kind: z.enum(['tool', 'resource']).optional().describe('Only tool calls or resource reads'),
+  name: z.string().optional().describe('Only this tool name or resource URI'),
+  session: z.string().optional()
+    .describe("Only this session, or * for all; defaults to the caller's. Other sessions need audit.crossSessionQueries"),
+  outcome: z.enum(['success', 'error', 'rate_limited', 'cancelled']).optional().describe('Only this outcome'),
+  since: z.string().datetime().optional().describe('Only entries at or after this ISO timestamp'),
+  version: VersionSchema,
+});
+
+export type QueryAuditLogParams = z.infer<typeof QueryAuditLogSchema>;
+
+// ============================================================================
+// Tool Output Schemas
 // ============================================================================
-// JSON Schemas for MCP (Tool Input Schemas)
-// ============================================================================
-// These are plain JSON objects (not Zod validators) used for MCP tool definitions
-
-export const GeneratePluginInputSchema = {
-  type: 'object',
-  properties: {
-    name: { type: 'string', description: 'Plugin name (e.g., MyAccordion)' },
-    slug: { type: 'string', description: 'Kebab-case slug (e.g., my-accordion)' },
-    description: { type: 'string', description: 'Plugin description' },
-    selector: { type: 'string', description: 'CSS selector (optional)' },
-    features: {
-      type: 'object',
-      properties: {
-        keyboard: { type: 'boolean', description: 'Support keyboard navigation' },
-        nesting: { type: 'boolean', description: 'Support nested items' },
-        events: { type: 'array', items: { type: 'string' }, description: 'Custom events' },
-        stateManagement: { type: 'boolean', description: 'Track active state' },
-      },
-    },
-    includeTests: { type: 'boolean', description: 'Generate test file' },
-    includeDocs: { type: 'boolean', description: 'Generate documentation' },
-  },
-  required: ['name', 'slug', 'description'],
-} as const;
-
-export const GenerateComponentInputSchema = {
-  type: 'object',
-  properties: {
-    name: { type: 'string', description: 'Component name (e.g., Alert)' },
-    slug: { type: 'string', description: 'Kebab-case slug' },
-    description: { type: 'string', description: 'Component description' },
-    cssClasses: { type: 'array', items: { type: 'string' }, description: 'CSS classes' },
-    includeTests: { type: 'boolean', description: 'Generate test file' },
-    includeDocs: { type: 'boolean', description: 'Generate documentation' },
-    grid: { type: 'string', enum: ['xy-grid', 'float-grid', 'both'], description: 'Grid system' },
-  },
-  required: ['name', 'slug', 'description'],
-} as const;
-
-export const AnalyzePatternInputSchema = {
-  type: 'object',
-  properties: {
-    code: { type: 'string', description: 'JavaScript or SCSS code to analyze' },
-    patternType: { type: 'string', enum: ['plugin', 'component', 'utility'], description: 'Type of code' },
-  },
-  required: ['code', 'patternType'],
-} as const;
-
-export const FindSimilarPatternInputSchema = {
-  type: 'object',
-  properties: {
-    query: { type: 'string', description: 'Description of pattern to find' },
-    type: { type: 'string', enum: ['plugin', 'component', 'utility', 'test'], description: 'Pattern type' },
-    limit: { type: 'number', minimum: 1, maximum: 20, description: 'Maximum results' },
-  },
-  required: ['query'],
-} as const;
-
-export const QueryArchitectureInputSchema = {
-  type: 'object',
-  properties: {
-    question: { type: 'string', description: 'Architecture question' },
-    context: { type: 'string', enum: ['plugin', 'component', 'build', 'testing'], description: 'Query context' },
-  },
-  required: ['question'],
-} as const;
-
-export const WordPressIntegrationInputSchema = {
-  type: 'object',
-  properties: {
-    context: { type: 'string', enum: ['theme', 'plugin'], description: 'Target WordPress integration type' },
-    bundler: { type: 'string', enum: ['gulp', 'webpack', 'vite', 'mix', 'none'], description: 'Build tool used for assets' },
-    enableRTL: { type: 'boolean', description: 'Whether to emit RTL guidance' },
-    enableMotionUI: { type: 'boolean', description: 'Whether to include Motion UI guidance' },
-    enableBlockEditor: { type: 'boolean', description: 'Whether to include Gutenberg/block editor guidance' },
-    enqueueJQuery: { type: 'boolean', description: 'Whether to ensure jQuery is enqueued before Foundation scripts' },
-  },
-  required: [],
-} as const;
-
-export const RefactorToFoundationInputSchema = {
-  type: 'object',
-  properties: {
-    sourceCode: { type: 'string', description: 'Code to refactor' },
-    sourceType: { type: 'string', enum: ['custom-plugin', 'custom-component'], description: 'Type of code' },
-    foundationTarget: { type: 'string', description: 'Specific Foundation component (optional)' },
-  },
-  required: ['sourceCode', 'sourceType'],
-} as const;
-
-export const ValidatePluginInputSchema = {
-  type: 'object',
-  properties: {
-    code: { type: 'string', description: 'Code or file path' },
-    strict: { type: 'boolean', description: 'Enforce all best practices' },
-  },
-  required: ['code'],
-} as const;
+// Shapes of the JSON each tool returns, published as the tool's outputSchema
+
+const GeneratedFileSchema = z.object({
+  path: z.string(),
+  content: z.string(),
+});
+
+const IssueSchema = z.object({
+  severity: z.enum(['error', 'warning', 'info']),
+  message: z.string(),
+  line: z.number().optional(),
+  suggestion: z.string().optional(),
+});
+
+export const GeneratePluginOutputSchema = z.object({
+  status: z.enum(['success', 'error']),
+  files: z.object({
+    plugin: GeneratedFileSchema.optional(),
+    test: GeneratedFileSchema.optional(),
+    docs: GeneratedFileSchema.optional(),
+  }),
+  integrationSteps: z.array(z.string()),
+  error: z.string().optional(),
+});
+
+export const GenerateComponentOutputSchema = z.object({
+  status: z.enum(['success', 'error']),
+  files: z.object({
+    component: GeneratedFileSchema.optional(),
+    test: GeneratedFileSchema.optional(),
+    docs: GeneratedFileSchema.optional(),
+  }),
+  integrationSteps: z.array(z.string()),
+  error: z.string().optional(),
+});
+
+export const AnalyzePatternOutputSchema = z.object({
+  matches: z.enum(['matches', 'partial-match', 'no-match']),
+  issues: z.array(IssueSchema),
+  conformance: z.object({
+    architecture: z.number(),
+    conventions: z.number(),
+    accessibility: z.number(),
+  }),
+  suggestions: z.array(z.string()),
+});
+
+export const FindSimilarPatternOutputSchema = z.object({
+  results: z.array(z.object({
+    name: z.string(),
+    path: z.string(),
+    similarity: z.number(),
+    relevantSnippets: z.array(z.string()),
+    documentation: z.string().optional(),
+  })),
+});
+
+export const QueryArchitectureOutputSchema = z.object({
+  answer: z.string(),
+  examples: z.array(z.object({
+    file: z.string(),
+    snippet: z.string(),
+  })),
+  relatedTopics: z.array(z.string()),
+});
+
+export const RefactorToFoundationOutputSchema = z.object({
+  sourceType: z.enum(['custom-plugin', 'custom-component']),
+  suggestedFoundationComponents: z.array(z.object({
+    name: z.string(),
+    slug: z.string(),
+    similarity: z.number(),
+    reasoning: z.string(),
+  })),
+  migrationSteps: z.array(z.string()),
+  codeAdaptation: z.object({
+    before: z.string(),
+    after: z.string(),
+    changes: z.array(z.string()),
+  }),
+  breakingChanges: z.array(z.string()),
+  recommendedApproach: z.string(),
+  integrationGuide: z.array(z.string()),
+});
+
+export const ValidatePluginOutputSchema = z.object({
+  valid: z.boolean(),
+  errors: z.array(z.string()),
+  warnings: z.array(z.string()),
+  coverage: z.object({
+    required_methods: z.number(),
+    event_handling: z.number(),
+    accessibility: z.number(),
+  }),
+});
+
+export const PluginOptionSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  default: z.string(),
+  description: z.string(),
+  dataAttribute: z.string(),
+  example: z.string().optional(),
+});
+
+export const PluginMethodSchema = z.object({
+  name: z.string(),
+  signature: z.string(),
+  params: z.array(z.object({
+    name: z.string(),
+    type: z.string().optional(),
+    description: z.string().optional(),
+    optional: z.boolean(),
+    default: z.string().optional(),
+  })),
+  description: z.string(),
+  returns: z.string().optional(),
+});
+
+export const PluginEventSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  firedFrom: z.array(z.string()),
+});
+
+export const PluginReferenceOutputSchema = z.object({
+  name: z.string(),
+  slug: z.string(),
+  description: z.string(),
+  selector: z.string(),
+  className: z.string(),
+  documentation: z.string(),
+  path: z.string(),
+  options: z.array(PluginOptionSchema),
+  /** Markdown table of the options */
+  optionsTable: z.string(),
+  methods: z.array(PluginMethodSchema),
+  events: z.array(PluginEventSchema),
+});
+
+export const ComponentReferenceOutputSchema = z.object({
+  name: z.string(),
+  slug: z.string(),
+  description: z.string(),
+  mixins: z.array(z.string()),
+  cssClasses: z.array(z.string()),
+  documentation: z.string(),
+  scssPath: z.string(),
+});
+
+export const FoundationSettingSchema = z.object({
+  name: z.string(),
+  default: z.string(),
+  type: z.string().nullable(),
+  description: z.string(),
+  component: z.string().nullable(),
+  section: z.string().nullable(),
+});
+
+export const SettingsReferenceOutputSchema = z.object({
+  settingsFile: z.string(),
+  total: z.number(),
+  settings: z.array(FoundationSettingSchema),
+});
+
+export const SassParameterSchema = z.object({
+  name: z.string(),
+  default: z.string().nullable(),
+  type: z.string().nullable(),
+  description: z.string(),
+});
+
+export const FoundationSassApiEntrySchema = z.object({
+  name: z.string(),
+  kind: z.enum(['function', 'mixin']),
+  signature: z.string(),
+  params: z.array(SassParameterSchema),
+  returns: z.string().nullable(),
+  description: z.string(),
+  isPrivate: z.boolean(),
+  file: z.string(),
+});
+
+export const SassApiReferenceOutputSchema = z.object({
+  total: z.number(),
+  entries: z.array(FoundationSassApiEntrySchema),
+});
+
+export const SassVariableSchema = z.object({
+  name: z.string(),
+  value: z.string(),
+  isDefault: z.boolean(),
+  type: z.string().nullable(),
+  description: z.string(),
+  section: z.string().nullable(),
+});
+
+export const GridReferenceSchema = z.object({
+  name: z.string(),
+  slug: z.string(),
+  description: z.string(),
+  scssPath: z.string(),
+  columns: z.number(),
+  mixins: z.array(FoundationSassApiEntrySchema),
+  variables: z.array(SassVariableSchema),
+  classes: z.array(z.object({
+    pattern: z.string(),
+    responsive: z.boolean(),
+    mixin: z.string().nullable(),
+    examples: z.array(z.string()),
+  })),
+});
+
+export const GridReferenceOutputSchema = z.object({
+  breakpoints: z.array(z.object({
+    name: z.string(),
+    minWidth: z.string(),
+    hasClasses: z.boolean(),
+  })),
+  grids: z.array(GridReferenceSchema),
+});
+
+export const WordPressIntegrationOutputSchema = z.object({
+  summary: z.string(),
+  steps: z.array(z.string()),
+  enqueueExample: z.string(),
+  phpTemplateTips: z.array(z.string()),
+  blockEditor: z.array(z.string()),
+  rtl: z.array(z.string()),
+  motionUI: z.string(),
+  troubleshooting: z.array(z.string()),
+});
+
+export const ServerStatusOutputSchema = z.object({
+  startedAt: z.string(),
+  uptimeSeconds: z.number(),
+  ready: z.boolean(),
+  workspaces: z.array(z.object({
+    version: z.string(),
+    path: z.string(),
+    isDefault: z.boolean(),
+    index: z.record(z.any()),
+  })),
+  cache: z.record(z.any()),
+  tools: z.array(z.record(z.any())),
+  queues: z.array(z.record(z.any())),
+  config: z.record(z.any()),
+});
+
+export const RebuildIndexOutputSchema = z.object({
+  version: z.string(),
+  state: z.enum(['pending', 'building', 'ready', 'partial', 'failed']),
+  durationMs: z.number(),
+  parsedFiles: z.number(),
+  counts: z.record(z.number()).nullable(),
+  failedFiles: z.array(z.object({
+    path: z.string(),
+    kind: z.string(),
+    error: z.string(),
+  })),
+});
+
+/**
+ * One line of the audit log
+ */
+export const AuditEntrySchema = z.object({
+  timestamp: z.string(),
+  session: z.string(),
+  kind: z.enum(['tool', 'resource']),
+  /** Tool name or resource URI */
+  name: z.string(),
+  /** sha256 of the arguments before redaction */
+  argsHash: z.string(),
+  /** Arguments with redacted values replaced by their length and hash */
+  args: z.record(z.unknown()),
+  durationMs: z.number(),
+  outcome: z.enum(['success', 'error', 'rate_limited', 'cancelled']),
+  errorCode: z.string().optional(),
+  /** Paths of files the call generated */
+  files: z.array(z.string()).optional(),
+});
+
+export type AuditEntry = z.infer<typeof AuditEntrySchema>;
+
+export const QueryAuditLogOutputSchema = z.object({
+  enabled: z.boolean(),
+  entries: z.array(AuditEntrySchema),
+});
 
 // ============================================================================
 // Result Types
@@ -414,23 +1017,104 @@ export interface RefactoringAnalysisResult {
 // Configuration Types
 // ============================================================================
 
-export interface ServerConfig {
-  port: number;
-  logLevel: 'debug' | 'info' | 'warn' | 'error';
-  foundationRepoPath: string;
-  cache: {
-    ttl: number;
-    backend: 'memory' | 'redis';
-    maxSize?: number;
-    redisUrl?: string;
-  };
-  performance: {
-    maxConcurrentOperations: number;
-  };
-  security: {
-    enableRateLimiting: boolean;
-    rateLimitPerMinute: number;
-  };
+/**
+ * A Foundation checkout or installed foundation-sites package
+ */
+export const WorkspaceConfigSchema = z.object({
+  path: z.string().min(1),
+  /** Version label; detected from the checkout's package.json when omitted */
+  version: z.string().min(1).optional(),
+});
+
+export type WorkspaceConfig = z.infer<typeof WorkspaceConfigSchema>;
+
+export const ServerConfigSchema = z.object({
+  transport: z.enum(['stdio', 'http']),
+  host: z.string().min(1),
+  port: z.number().int().min(1).max(65535),
+  logLevel: z.enum(['debug', 'info', 'warn', 'error']),
+  foundationRepoPath: z.string().min(1),
+  /** Additional Foundation checkouts served next to foundationRepoPath */
+  workspaces: z.array(WorkspaceConfigSchema),
+  /** Extension modules loaded at startup (paths or package names) */
+  extensions: z.array(z.string().min(1)),
+  cache: z.object({
+    ttl: z.number().int().min(0),
+    backend: z.enum(['memory', 'redis']),
+    maxSize: z.number().int().min(1).optional(),
+    redisUrl: z.string().optional(),
+  }),
+  performance: z.object({
+    maxConcurrentOperations: z.number().int().min(1),
+    /** How long index-dependent tools wait for the index build; 0 waits until it finishes */
+    indexWaitMs: z.number().int().min(0),
+    /** Worker threads that parse source files; 0 parses on the main thread */
+    parseWorkers: z.number().int().min(0),
+    /** Analyzer inputs at least this large are parsed on a worker */
+    workerMinInputBytes: z.number().int().min(0),
+  }),
+  security: z.object({
+    enableRateLimiting: z.boolean(),
+    rateLimitPerMinute: z.number().int().min(1),
+    expensiveRateLimitPerMinute: z.number().int().min(1),
+  }),
+  watch: z.object({
+    enabled: z.boolean(),
+    debounceMs: z.number().int().min(0),
+  }),
+  snapshot: z.object({
+    /** Persist each workspace index and re-parse only changed files on startup */
+    enabled: z.boolean(),
+    directory: z.string().min(1),
+  }),
+  audit: z.object({
+    enabled: z.boolean(),
+    /** JSONL file; rotated files get .1, .2, ... suffixes */
+    path: z.string().min(1),
+    maxBytes: z.number().int().min(1024),
+    maxFiles: z.number().int().min(1),
+    /** Argument names whose values are logged as length and hash only */
+    redactArguments: z.array(z.string()),
+    /** Let query_audit_log read other sessions' entries; otherwise it only sees the caller's */
+    crossSessionQueries: z.boolean(),
+  }),
+  /** Argument defaults per tool name, applied before the caller's arguments */
+  toolDefaults: z.record(z.record(z.unknown())),
+});
+
+export type ServerConfig = z.infer<typeof ServerConfigSchema>;
+
+/**
+ * foundation-mcp.config.json: any subset of ServerConfig, plus argument
+ * defaults per tool under `tools`
+ */
+export const ConfigFileSchema = ServerConfigSchema
+  .omit({ toolDefaults: true })
+  .deepPartial()
+  .extend({
+    $schema: z.string().optional(),
+    tools: z.record(z.record(z.unknown())).optional(),
+  })
+  .strict();
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+// ============================================================================
+// Operation Types
+// ============================================================================
+
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Per-request hooks for long-running work
+ */
+export interface OperationContext {
+  signal?: AbortSignal;
+  onProgress?: (update: ProgressUpdate) => void;
 }
 
 // ============================================================================
@@ -463,6 +1147,12 @@ export interface ParsedPlugin {
   extendsClass: string | null;
   imports: string[];
   exports: string[];
+  /** Entries of `Plugin.defaults` */
+  options: PluginOption[];
+  /** Documented methods of the plugin class, without `_`-prefixed ones */
+  publicMethods: PluginMethod[];
+  /** Events fired with a literal name, one entry per name */
+  firedEvents: PluginEvent[];
 }
 
 export interface ParsedComponent {
@@ -477,6 +1167,12 @@ export interface ParsedComponent {
     description?: string;
   }>;
   classes: string[];
+  /** Top-level variables with their SassDoc and section */
+  settings: SassVariable[];
+  /** Top-level functions and mixins with their SassDoc */
+  callables: SassCallable[];
+  /** Classes the stylesheet generates, including interpolated ones */
+  classPatterns: SassClassPattern[];
 }
 
 // ============================================================================
@@ -517,6 +1213,38 @@ export interface PluginArchitecture {
   optionalPatterns: string[];
 }
 
+// ============================================================================
+// Extension Types
+// ============================================================================
+
+/**
+ * Extra check run by PluginAnalyzer after the built-in analysis
+ */
+export interface AnalyzerRule {
+  id: string;
+  description?: string;
+  /** Pattern types the rule applies to; all types when omitted */
+  patternTypes?: AnalyzePatternParams['patternType'][];
+  /** Issues found in the code; `parsed` is set for plugin code that parsed */
+  check(code: string, parsed: ParsedPlugin | null): ValidationIssue[] | Promise<ValidationIssue[]>;
+}
+
+/**
+ * Named generator template. `render` receives the files the built-in
+ * generator would emit and returns the files to emit instead.
+ */
+export interface GeneratorTemplate<Params, Files> {
+  name: string;
+  description: string;
+  render(params: Params, files: Files): Files | Promise<Files>;
+  /** Steps appended to the generator's integration steps */
+  integrationSteps?: string[];
+}
+
+export type PluginTemplate = GeneratorTemplate<GeneratePluginParams, GeneratePluginResult['files']>;
+
+export type ComponentTemplate = GeneratorTemplate<GenerateComponentParams, GenerateComponentResult['files']>;
+
 // ============================================================================
 // Resource Types
 // ============================================================================
@@ -562,3 +1290,31 @@ export class ParseError extends MCPServerError {
     this.name = 'ParseError';
   }
 }
+
+export class RateLimitError extends MCPServerError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(message, 'RATE_LIMITED', details);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class ExtensionError extends MCPServerError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(message, 'EXTENSION_ERROR', details);
+    this.name = 'ExtensionError';
+  }
+}
+
+export class IndexNotReadyError extends MCPServerError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(message, 'INDEX_WARMING_UP', details);
+    this.name = 'IndexNotReadyError';
+  }
+}
+
+export class CancelledError extends MCPServerError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(message, 'CANCELLED', details);
+    this.name = 'CancelledError';
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Append-only JSONL audit log of tool calls and resource reads
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { AuditEntry, QueryAuditLogParams, ServerConfig } from '../types.js';
+import { fileExists, readFile } from './fileSystem.js';
+import { logger } from './logger.js';
+
+/**
+ * What a handler reports about one call; the log adds the timestamp, the
+ * argument hash and redaction
+ */
+export interface AuditRecord {
+  session: string;
+  kind: AuditEntry['kind'];
+  name: string;
+  args: Record<string, unknown>;
+  durationMs: number;
+  outcome: AuditEntry['outcome'];
+  errorCode?: string;
+  files?: string[];
+}
+
+export type AuditQuery = Partial<Omit<QueryAuditLogParams, 'version'>>;
+
+/**
+ * JSON with object keys sorted, so equal arguments hash equally
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function sha256(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * sha256 of the arguments, independent of key order
+ */
+export function hashArguments(args: Record<string, unknown>): string {
+  return sha256(stableStringify(args));
+}
+
+/**
+ * Replace the values of the named arguments, at any depth, with their
+ * length and hash
+ */
+export function redactArguments(args: Record<string, unknown>, names: string[]): Record<string, unknown> {
+  const redact = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(redact);
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => {
+      if (!names.includes(key)) {
+        return [key, redact(entry)];
+      }
+      const text = typeof entry === 'string' ? entry : stableStringify(entry);
+      return [key, { redacted: true, length: text.length, sha256: sha256(text) }];
+    }));
+  };
+
+  return redact(args) as Record<string, unknown>;
+}
+
+export class AuditLog {
+  private config: ServerConfig['audit'];
+  private filePath: string;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(config: ServerConfig['audit']) {
+    this.config = config;
+    this.filePath = path.resolve(config.path);
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  get crossSessionQueries(): boolean {
+    return this.config.crossSessionQueries;
+  }
+
+  /**
+   * Append an entry. Writes are serialized; a failed write is logged and
+   * never fails the call being audited.
+   */
+  record(record: AuditRecord): Promise<void> {
+    if (!this.config.enabled) {
+      return Promise.resolve();
+    }
+
+    const entry: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      session: record.session,
+      kind: record.kind,
+      name: record.name,
+      argsHash: hashArguments(record.args),
+      args: redactArguments(record.args, this.config.redactArguments),
+      durationMs: record.durationMs,
+      outcome: record.outcome,
+      ...(record.errorCode ? { errorCode: record.errorCode } : {}),
+      ...(record.files?.length ? { files: record.files } : {}),
+    };
+
+    this.writes = this.writes
+      .then(() => this.append(`${JSON.stringify(entry)}\n`))
+      .catch(error => logger.warn('Failed to write audit log entry', {
+        path: this.filePath,
+        error: String(error),
+      }));
+    return this.writes;
+  }
+
+  /**
+   * Recent entries matching a filter, newest first, across rotated files
+   */
+  async query(filter: AuditQuery = {}): Promise<AuditEntry[]> {
+    if (!this.config.enabled) {
+      return [];
+    }
+    await this.writes;
+
+    const limit = filter.limit ?? 50;
+    const since = filter.since ? Date.parse(filter.since) : undefined;
+    const entries: AuditEntry[] = [];
+
+    for (const file of this.files()) {
+      if (!(await fileExists(file))) {
+        continue;
+      }
+
+      const lines = (await readFile(file)).split('\n').filter(Boolean).reverse();
+      for (const line of lines) {
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          continue;
+        }
+
+        // Files are chronological, so everything further back is older
+        if (since !== undefined && Date.parse(entry.timestamp) < since) {
+          return entries;
+        }
+        if (
+          (filter.kind && entry.kind !== filter.kind) ||
+          (filter.name && entry.name !== filter.name) ||
+          (filter.session && entry.session !== filter.session) ||
+          (filter.outcome && entry.outcome !== filter.outcome)
+        ) {
+          continue;
+        }
+
+        entries.push(entry);
+        if (entries.length >= limit) {
+          return entries;
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Wait for pending writes
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  /**
+   * The live file followed by rotated files, newest first
+   */
+  private files(): string[] {
+    return [
+      this.filePath,
+      ...Array.from({ length: this.config.maxFiles }, (_, index) => `${this.filePath}.${index + 1}`),
+    ];
+  }
+
+  private async append(line: string): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const size = await fs.stat(this.filePath).then(stats => stats.size, () => 0);
+    if (size > 0 && size + Buffer.byteLength(line) > this.config.maxBytes) {
+      await this.rotate();
+    }
+
+    await fs.appendFile(this.filePath, line, 'utf-8');
+  }
+
+  /**
+   * Shift audit.jsonl to audit.jsonl.1, .1 to .2, ...; the oldest beyond
+   * maxFiles is deleted
+   */
+  private async rotate(): Promise<void> {
+    const [current, ...rotated] = this.files();
+    await fs.rm(rotated[rotated.length - 1], { force: true });
+
+    for (let index = rotated.length - 1; index > 0; index--) {
+      if (await fileExists(rotated[index - 1])) {
+        await fs.rename(rotated[index - 1], rotated[index]);
+      }
+    }
+    await fs.rename(current, rotated[0]);
+
+    logger.info('Audit log rotated', { path: current });
+  }
+}
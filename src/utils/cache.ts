@@ -87,6 +87,109 @@ export class RedisCache implements CacheInterface {
   }
 }
 
+/**
+ * Hit and miss counters of an InstrumentedCache
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number | null;
+  writes: number;
+}
+
+/**
+ * Cache wrapper that counts hits and misses
+ */
+export class InstrumentedCache implements CacheInterface {
+  private cache: CacheInterface;
+  private hits = 0;
+  private misses = 0;
+  private writes = 0;
+
+  constructor(cache: CacheInterface) {
+    this.cache = cache;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = await this.cache.get<T>(key);
+    if (value === null) {
+      this.misses++;
+    } else {
+      this.hits++;
+    }
+    return value;
+  }
+
+  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    this.writes++;
+    await this.cache.set(key, value, ttl);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.cache.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    await this.cache.clear();
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.cache.has(key);
+  }
+
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : null,
+      writes: this.writes,
+    };
+  }
+}
+
+/**
+ * View of a shared cache whose keys are prefixed with a namespace, so
+ * several Foundation workspaces can use the same CacheKeys
+ */
+export class NamespacedCache implements CacheInterface {
+  private cache: CacheInterface;
+  private prefix: string;
+  private keys = new Set<string>();
+
+  constructor(cache: CacheInterface, namespace: string) {
+    this.cache = cache;
+    this.prefix = `${namespace}:`;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    return this.cache.get<T>(this.prefix + key);
+  }
+
+  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    this.keys.add(key);
+    await this.cache.set(this.prefix + key, value, ttl);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.keys.delete(key);
+    await this.cache.delete(this.prefix + key);
+  }
+
+  /**
+   * Remove only the keys this view has written
+   */
+  async clear(): Promise<void> {
+    const keys = [...this.keys];
+    this.keys.clear();
+    await Promise.all(keys.map(key => this.cache.delete(this.prefix + key)));
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.cache.has(this.prefix + key);
+  }
+}
+
 /**
  * Create cache instance based on configuration
  */
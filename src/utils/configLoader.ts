@@ -0,0 +1,301 @@
+/**
+ * Config file discovery, environment overrides and merging
+ */
+
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { ZodError } from 'zod';
+import { ConfigFile, ConfigFileSchema, ServerConfig, ValidationError } from '../types.js';
+import { fileExists, readFile } from './fileSystem.js';
+
+/**
+ * Config file names looked up in the working directory, in order
+ */
+export const CONFIG_FILE_NAMES = [
+  'foundation-mcp.config.json',
+  'foundation-mcp.config.mjs',
+  'foundation-mcp.config.js',
+  'foundation-mcp.config.ts',
+];
+
+type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends Array<unknown> ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+export type PartialServerConfig = DeepPartial<ServerConfig>;
+
+type EnvKind = 'string' | 'number' | 'boolean' | 'list' | 'workspaces';
+
+/**
+ * Environment variables and the config field each one sets
+ */
+const ENV_VARIABLES: Array<[name: string, field: string, kind: EnvKind]> = [
+  ['MCP_TRANSPORT', 'transport', 'string'],
+  ['MCP_HOST', 'host', 'string'],
+  ['MCP_PORT', 'port', 'number'],
+  ['MCP_LOG_LEVEL', 'logLevel', 'string'],
+  ['FOUNDATION_REPO_PATH', 'foundationRepoPath', 'string'],
+  ['FOUNDATION_WORKSPACES', 'workspaces', 'workspaces'],
+  ['FOUNDATION_MCP_EXTENSIONS', 'extensions', 'list'],
+  ['CACHE_TTL', 'cache.ttl', 'number'],
+  ['CACHE_BACKEND', 'cache.backend', 'string'],
+  ['CACHE_MAX_SIZE', 'cache.maxSize', 'number'],
+  ['REDIS_URL', 'cache.redisUrl', 'string'],
+  ['MAX_CONCURRENT_OPERATIONS', 'performance.maxConcurrentOperations', 'number'],
+  ['INDEX_WAIT_MS', 'performance.indexWaitMs', 'number'],
+  ['PARSE_WORKERS', 'performance.parseWorkers', 'number'],
+  ['PARSE_WORKER_MIN_INPUT_BYTES', 'performance.workerMinInputBytes', 'number'],
+  ['ENABLE_RATE_LIMITING', 'security.enableRateLimiting', 'boolean'],
+  ['RATE_LIMIT_PER_MINUTE', 'security.rateLimitPerMinute', 'number'],
+  ['EXPENSIVE_RATE_LIMIT_PER_MINUTE', 'security.expensiveRateLimitPerMinute', 'number'],
+  ['WATCH_FOUNDATION_REPO', 'watch.enabled', 'boolean'],
+  ['WATCH_DEBOUNCE_MS', 'watch.debounceMs', 'number'],
+  ['INDEX_SNAPSHOT', 'snapshot.enabled', 'boolean'],
+  ['INDEX_SNAPSHOT_DIR', 'snapshot.directory', 'string'],
+  ['AUDIT_LOG', 'audit.enabled', 'boolean'],
+  ['AUDIT_LOG_PATH', 'audit.path', 'string'],
+  ['AUDIT_LOG_MAX_BYTES', 'audit.maxBytes', 'number'],
+  ['AUDIT_LOG_MAX_FILES', 'audit.maxFiles', 'number'],
+  ['AUDIT_LOG_REDACT', 'audit.redactArguments', 'list'],
+  ['AUDIT_LOG_CROSS_SESSION', 'audit.crossSessionQueries', 'boolean'],
+];
+
+/**
+ * Env variable that sets a config field, for error messages
+ */
+export function envVariableFor(field: string): string | undefined {
+  return ENV_VARIABLES.find(([, envField]) => envField === field)?.[0];
+}
+
+/**
+ * Config fields set by environment variables. Values that do not convert
+ * are passed through as strings so validation reports them.
+ */
+export function configFromEnv(env: NodeJS.ProcessEnv): PartialServerConfig {
+  const config: Record<string, unknown> = {};
+
+  for (const [name, field, kind] of ENV_VARIABLES) {
+    const raw = env[name];
+    if (raw === undefined || raw === '') {
+      continue;
+    }
+
+    const keys = field.split('.');
+    let target = config;
+    for (const key of keys.slice(0, -1)) {
+      const next = target[key];
+      if (isPlainObject(next)) {
+        target = next;
+      } else {
+        const created: Record<string, unknown> = {};
+        target[key] = created;
+        target = created;
+      }
+    }
+    target[keys[keys.length - 1]] = convertEnvValue(raw, kind);
+  }
+
+  return config as PartialServerConfig;
+}
+
+function convertEnvValue(raw: string, kind: EnvKind): unknown {
+  switch (kind) {
+    case 'number': {
+      const value = Number(raw);
+      return raw.trim() !== '' && Number.isFinite(value) ? value : raw;
+    }
+    case 'boolean':
+      return raw === 'true' ? true : raw === 'false' ? false : raw;
+    case 'list':
+      return splitList(raw);
+    case 'workspaces':
+      return parseWorkspaces(raw);
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Split a comma-separated list, dropping empty entries
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse FOUNDATION_WORKSPACES: comma-separated paths, each optionally
+ * prefixed with a version label (e.g. "6.4=/srv/foundation-6.4,/srv/foundation-6.9")
+ */
+function parseWorkspaces(value: string) {
+  return splitList(value).map(entry => {
+    const separator = entry.indexOf('=');
+    if (separator === -1) {
+      return { path: entry };
+    }
+    return {
+      version: entry.slice(0, separator).trim(),
+      path: entry.slice(separator + 1).trim(),
+    };
+  });
+}
+
+/**
+ * First config file present in a directory
+ */
+export async function findConfigFile(directory: string): Promise<string | undefined> {
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = path.join(directory, name);
+    if (await fileExists(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read and validate a config file. JSON files are parsed; .js/.mjs/.ts files
+ * are imported and must default-export the config object. Relative paths
+ * inside the file resolve against the file's directory.
+ */
+export async function readConfigFile(filePath: string): Promise<PartialServerConfig> {
+  const absolutePath = path.resolve(filePath);
+  if (!(await fileExists(absolutePath))) {
+    throw new ValidationError(`Config file not found: ${filePath}`, { configFile: absolutePath });
+  }
+  if (!/\.(json|js|mjs|ts)$/.test(absolutePath)) {
+    throw new ValidationError(`Config file must be .json, .mjs, .js or .ts: ${filePath}`, { configFile: absolutePath });
+  }
+
+  let contents: unknown;
+  try {
+    if (absolutePath.endsWith('.json')) {
+      contents = JSON.parse(await readFile(absolutePath));
+    } else {
+      const module = absolutePath.endsWith('.ts')
+        ? await importTypeScript(absolutePath)
+        : await import(pathToFileURL(absolutePath).href);
+      contents = module.default ?? module.config;
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    throw new ValidationError(`Cannot read config file ${filePath}: ${(error as Error).message}`, {
+      configFile: absolutePath,
+    });
+  }
+
+  let file: ConfigFile;
+  try {
+    file = ConfigFileSchema.parse(contents);
+  } catch (error) {
+    throw configError(error as ZodError, absolutePath);
+  }
+
+  return resolveFilePaths(file, path.dirname(absolutePath));
+}
+
+/**
+ * Import a TypeScript config file through tsx. Plain Node cannot import
+ * TypeScript, and tsx is a development dependency that production installs
+ * may leave out.
+ */
+async function importTypeScript(absolutePath: string) {
+  let tsx: typeof import('tsx/esm/api');
+  try {
+    tsx = await import('tsx/esm/api');
+  } catch {
+    throw new ValidationError(
+      `Config file ${absolutePath} is TypeScript, which needs the tsx package; install tsx or use .json, .mjs or .js`,
+      { configFile: absolutePath }
+    );
+  }
+
+  const url = pathToFileURL(absolutePath).href;
+  const module = await tsx.tsImport(url, url);
+  // Outside an ES module package the file compiles to CommonJS, whose
+  // exports arrive as the default export
+  return module.default?.__esModule ? module.default : module;
+}
+
+/**
+ * Make paths in a config file relative to its directory
+ */
+function resolveFilePaths(file: ConfigFile, directory: string): PartialServerConfig {
+  const { tools, ...config } = file;
+  delete config.$schema;
+  const resolvePath = (value: string) => path.resolve(directory, value);
+
+  return {
+    ...config,
+    foundationRepoPath: config.foundationRepoPath && resolvePath(config.foundationRepoPath),
+    workspaces: config.workspaces?.map(workspace => ({
+      ...workspace,
+      path: workspace.path && resolvePath(workspace.path),
+    })) as ServerConfig['workspaces'] | undefined,
+    // Package names stay as-is; only relative module paths are resolved
+    extensions: config.extensions?.map(extension =>
+      extension.startsWith('.') ? resolvePath(extension) : extension
+    ),
+    snapshot: config.snapshot && {
+      ...config.snapshot,
+      directory: config.snapshot.directory && resolvePath(config.snapshot.directory),
+    },
+    audit: config.audit && {
+      ...config.audit,
+      path: config.audit.path && resolvePath(config.audit.path),
+    },
+    toolDefaults: tools,
+  };
+}
+
+/**
+ * Merge config layers; later layers win. Objects merge by key, arrays and
+ * scalars replace, undefined leaves the earlier value.
+ */
+export function mergeConfig<T extends object>(base: T, ...layers: Array<DeepPartial<T> | undefined>): T {
+  const result: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer ?? {})) {
+      if (value === undefined) {
+        continue;
+      }
+      const current = result[key];
+      result[key] = isPlainObject(value) && isPlainObject(current)
+        ? mergeConfig(current, value)
+        : value;
+    }
+  }
+
+  return result as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * ValidationError listing each invalid field, naming the env variable when
+ * one sets the field
+ */
+export function configError(error: ZodError, source?: string): ValidationError {
+  const issues = error.issues.map(issue => {
+    const field = issue.path.join('.') || '(root)';
+    const envVariable = envVariableFor(field);
+    return {
+      path: field,
+      message: envVariable ? `${issue.message} (${envVariable})` : issue.message,
+      code: issue.code,
+    };
+  });
+
+  const summary = issues.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+  return new ValidationError(
+    `Invalid configuration${source ? ` in ${source}` : ''}: ${summary}`,
+    { issues, ...(source ? { configFile: source } : {}) }
+  );
+}
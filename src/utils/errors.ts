@@ -0,0 +1,133 @@
+/**
+ * Error mapping for Foundation MCP Server
+ */
+
+import { ZodError } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { MCPServerError, ValidationError } from '../types.js';
+
+/**
+ * Server-defined JSON-RPC error codes (reserved range -32000 to -32099)
+ */
+export const ServerErrorCode = {
+  ResourceNotFound: -32002,
+  RateLimited: -32003,
+  Cancelled: -32004,
+} as const;
+
+/**
+ * JSON-RPC code for each MCPServerError code. NOT_FOUND is resolved per
+ * request type because a missing resource and a missing tool differ.
+ */
+const PROTOCOL_ERROR_CODES: Record<string, number> = {
+  VALIDATION_ERROR: ErrorCode.InvalidParams,
+  PARSE_ERROR: ErrorCode.InvalidParams,
+  RATE_LIMITED: ServerErrorCode.RateLimited,
+  CANCELLED: ServerErrorCode.Cancelled,
+};
+
+/**
+ * What a caller can do to recover, keyed by MCPServerError code
+ */
+const REMEDIATION_HINTS: Record<string, string> = {
+  VALIDATION_ERROR: 'Fix the arguments listed in issues and call the tool again; tools/list has the input schema.',
+  NOT_FOUND: 'Check the name, slug or version; foundation://plugins/index, foundation://components/index and foundation://workspaces list what exists.',
+  PARSE_ERROR: 'Pass syntactically valid JavaScript (ES modules) or SCSS source.',
+  RATE_LIMITED: 'Wait retryAfterSeconds before calling again.',
+  CANCELLED: 'The request was cancelled; call again if the result is still needed.',
+  INDEX_WARMING_UP: 'The Foundation index is still being built; retry after retryAfterSeconds, or watch foundation://server/status until the index state is ready.',
+  EXTENSION_ERROR: 'An extension failed; check the extension named in details and the server log.',
+  INTERNAL_ERROR: 'This is a server fault; retrying will not help unless the repository changed.',
+};
+
+/**
+ * A field-level validation problem
+ */
+export interface ValidationIssueDetail {
+  path: string;
+  message: string;
+  code: string;
+}
+
+/**
+ * Body of a structured tool error result
+ */
+export interface ToolErrorPayload {
+  code: string;
+  message: string;
+  tool: string;
+  hint: string;
+  issues?: ValidationIssueDetail[];
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Normalize anything thrown into an MCPServerError
+ */
+export function toServerError(error: unknown): MCPServerError {
+  if (error instanceof MCPServerError) {
+    return error;
+  }
+
+  if (error instanceof ZodError) {
+    const issues: ValidationIssueDetail[] = error.issues.map(issue => ({
+      path: issue.path.join('.') || '(root)',
+      message: issue.message,
+      code: issue.code,
+    }));
+    const summary = issues.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    return new ValidationError(`Invalid arguments: ${summary}`, { issues });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new MCPServerError(message, 'INTERNAL_ERROR');
+}
+
+/**
+ * Convert an error into a JSON-RPC error for a protocol request
+ */
+export function toProtocolError(
+  error: unknown,
+  notFoundCode: number = ErrorCode.InvalidParams
+): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+
+  const serverError = toServerError(error);
+  const code = serverError.code === 'NOT_FOUND'
+    ? notFoundCode
+    : PROTOCOL_ERROR_CODES[serverError.code] ?? ErrorCode.InternalError;
+
+  return new McpError(code, serverError.message, {
+    code: serverError.code,
+    ...serverError.details,
+  });
+}
+
+/**
+ * Build the isError result returned when a tool call fails
+ */
+export function toToolErrorResult(tool: string, error: unknown) {
+  const serverError = toServerError(error);
+  const { issues, ...details } = serverError.details ?? {};
+
+  const payload: ToolErrorPayload = {
+    code: serverError.code,
+    message: serverError.message,
+    tool,
+    hint: REMEDIATION_HINTS[serverError.code] ?? REMEDIATION_HINTS.INTERNAL_ERROR,
+    ...(issues ? { issues } : {}),
+    ...(Object.keys(details).length > 0 ? { details } : {}),
+  };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({ error: payload }, null, 2),
+      },
+    ],
+    isError: true,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Convert zod schemas into the JSON Schema MCP clients expect
+ */
+
+import { z } from 'zod';
+
+export interface JsonSchema {
+  type?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema | boolean;
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * JSON Schema for a zod object: the input or output schema of a tool
+ */
+export function zodToJsonSchema(schema: z.AnyZodObject): JsonSchema & { type: 'object' } {
+  return { ...convert(schema), type: 'object' };
+}
+
+/**
+ * Convert one zod type, keeping descriptions and defaults from wrappers
+ */
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  const result = convertType(schema);
+  return schema.description && !result.description
+    ? { ...result, description: schema.description }
+    : result;
+}
+
+function convertType(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return convert(schema._def.innerType);
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return { ...convert(schema._def.innerType), default: schema._def.defaultValue() };
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return convert(schema._def.schema);
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    return {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, field]) => [key, convert(field)])
+      ),
+      required: Object.entries(shape)
+        .filter(([, field]) => !field.isOptional())
+        .map(([key]) => key),
+    };
+  }
+
+  if (schema instanceof z.ZodString) {
+    return withChecks({ type: 'string' }, schema._def.checks, 'minLength', 'maxLength');
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const isInteger = schema._def.checks.some(check => check.kind === 'int');
+    return withChecks({ type: isInteger ? 'integer' : 'number' }, schema._def.checks, 'minimum', 'maximum');
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options };
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const result: JsonSchema = { type: 'array', items: convert(schema.element) };
+    if (schema._def.minLength) {
+      result.minItems = schema._def.minLength.value;
+    }
+    if (schema._def.maxLength) {
+      result.maxItems = schema._def.maxLength.value;
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: convert(schema.valueSchema) };
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(convert) };
+  }
+
+  // z.any(), z.unknown() and anything without a JSON Schema equivalent
+  return {};
+}
+
+/**
+ * Copy min/max checks onto the JSON Schema bounds
+ */
+function withChecks(
+  result: JsonSchema,
+  checks: Array<{ kind: string; value?: unknown }>,
+  minKey: 'minimum' | 'minLength',
+  maxKey: 'maximum' | 'maxLength'
+): JsonSchema {
+  for (const check of checks) {
+    if (typeof check.value !== 'number') {
+      continue;
+    }
+    if (check.kind === 'min') {
+      result[minKey] = check.value;
+    } else if (check.kind === 'max') {
+      result[maxKey] = check.value;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,148 @@
+/**
+ * Markdown formatting for tool results and docs resources
+ */
+
+import {
+  FoundationComponent,
+  FoundationDocPage,
+  FoundationPlugin,
+  PluginEvent,
+  PluginMethod,
+  PluginOption,
+} from '../types.js';
+
+/**
+ * Keep a value on one table row: pipes would start a new cell and line
+ * breaks a new row
+ */
+function tableCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * A GitHub-flavored markdown table
+ */
+export function markdownTable(headers: string[], rows: string[][]): string {
+  return [
+    `| ${headers.map(tableCell).join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(tableCell).join(' | ')} |`),
+  ].join('\n');
+}
+
+/**
+ * Table of a plugin's options as documented on get.foundation
+ */
+export function pluginOptionsTable(options: PluginOption[]): string {
+  if (options.length === 0) {
+    return '_This plugin has no options._';
+  }
+
+  return markdownTable(
+    ['Option', 'Data attribute', 'Type', 'Default', 'Description'],
+    options.map(option => [
+      `\`${option.name}\``,
+      `\`${option.dataAttribute}\``,
+      `\`${option.type}\``,
+      `\`${option.default}\``,
+      option.description,
+    ])
+  );
+}
+
+/**
+ * One subsection per public method, with a table of its parameters
+ */
+export function pluginMethodsSection(methods: PluginMethod[]): string {
+  if (methods.length === 0) {
+    return '_This plugin has no public methods._';
+  }
+
+  return methods.map(method => {
+    const lines = [`### \`${method.signature}\``];
+    if (method.description) {
+      lines.push('', method.description);
+    }
+    if (method.params.length > 0) {
+      lines.push('', markdownTable(
+        ['Parameter', 'Type', 'Description'],
+        method.params.map(param => [
+          param.default ? `\`${param.name}\` = \`${param.default}\`` : `\`${param.name}\``,
+          param.type ? `\`${param.type}\`` : '',
+          param.description ?? '',
+        ])
+      ));
+    }
+    if (method.returns) {
+      lines.push('', `Returns \`${method.returns}\`.`);
+    }
+    return lines.join('\n');
+  }).join('\n\n');
+}
+
+/**
+ * Table of the events a plugin fires
+ */
+export function pluginEventsTable(events: PluginEvent[]): string {
+  if (events.length === 0) {
+    return '_This plugin fires no events._';
+  }
+
+  return markdownTable(
+    ['Event', 'Fired from', 'Description'],
+    events.map(event => [
+      `\`${event.name}\``,
+      event.firedFrom.map(receiver => `\`${receiver}\``).join(', '),
+      event.description,
+    ])
+  );
+}
+
+/**
+ * Title, description and, when the entry has a docs page, the page's own
+ * markdown
+ */
+function docsIntroduction(name: string, description: string, page?: FoundationDocPage): string[] {
+  if (!page) {
+    return [`# ${name}`, '', description];
+  }
+  return [`# ${page.title}`, '', page.frontMatter.description ?? description, '', page.body];
+}
+
+/**
+ * Reference page for an indexed plugin, after its docs page when it has one
+ */
+export function pluginReferencePage(plugin: FoundationPlugin, page?: FoundationDocPage): string {
+  return [
+    ...docsIntroduction(plugin.name, plugin.description, page),
+    '',
+    `Initialize with \`${plugin.selector}\`. Source: \`${plugin.path}\`.`,
+    '',
+    '## Options',
+    '',
+    pluginOptionsTable(plugin.options),
+    '',
+    '## Methods',
+    '',
+    pluginMethodsSection(plugin.methods),
+    '',
+    '## Events',
+    '',
+    pluginEventsTable(plugin.events),
+    '',
+    `Docs: ${plugin.docs}`,
+  ].join('\n');
+}
+
+/**
+ * Reference page for an indexed component, after its docs page when it has one
+ */
+export function componentReferencePage(component: FoundationComponent, page?: FoundationDocPage): string {
+  return [
+    ...docsIntroduction(component.name, component.description, page),
+    '',
+    `Source: \`${component.scssPath}\`.`,
+    '',
+    `Docs: ${component.docs}`,
+  ].join('\n');
+}
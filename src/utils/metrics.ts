@@ -0,0 +1,83 @@
+/**
+ * Tool call metrics for Foundation MCP Server
+ */
+
+/**
+ * How many recent durations per tool feed the latency percentiles
+ */
+const LATENCY_WINDOW = 500;
+
+export type ToolCallOutcome = 'success' | 'error' | 'cancelled' | 'rate_limited';
+
+export interface ToolCallStats {
+  tool: string;
+  calls: number;
+  outcomes: Record<ToolCallOutcome, number>;
+  p50Ms: number | null;
+  p95Ms: number | null;
+}
+
+interface ToolRecord {
+  outcomes: Record<ToolCallOutcome, number>;
+  durations: number[];
+}
+
+/**
+ * Counts tool calls per outcome and tracks recent latencies
+ */
+export class ToolMetrics {
+  private tools = new Map<string, ToolRecord>();
+
+  /**
+   * Record a finished tool call
+   */
+  record(tool: string, durationMs: number, outcome: ToolCallOutcome): void {
+    let record = this.tools.get(tool);
+    if (!record) {
+      record = {
+        outcomes: { success: 0, error: 0, cancelled: 0, rate_limited: 0 },
+        durations: [],
+      };
+      this.tools.set(tool, record);
+    }
+
+    record.outcomes[outcome]++;
+
+    // Throttled calls never ran, so they would drag the percentiles down
+    if (outcome !== 'rate_limited') {
+      record.durations.push(durationMs);
+      if (record.durations.length > LATENCY_WINDOW) {
+        record.durations.shift();
+      }
+    }
+  }
+
+  /**
+   * Per-tool counters and latency percentiles, sorted by tool name
+   */
+  snapshot(): ToolCallStats[] {
+    return [...this.tools.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([tool, record]) => {
+        const sorted = [...record.durations].sort((a, b) => a - b);
+        return {
+          tool,
+          calls: Object.values(record.outcomes).reduce((sum, count) => sum + count, 0),
+          outcomes: { ...record.outcomes },
+          p50Ms: percentile(sorted, 0.5),
+          p95Ms: percentile(sorted, 0.95),
+        };
+      });
+  }
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+export function percentile(sorted: number[], fraction: number): number | null {
+  if (sorted.length === 0) {
+    return null;
+  }
+  const rank = Math.ceil(fraction * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1];
+}
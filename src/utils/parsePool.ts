@@ -0,0 +1,232 @@
+/**
+ * Worker thread pool for Babel, PostCSS and markdown-it parsing
+ */
+
+import { Worker } from 'worker_threads';
+import {
+  CancelledError,
+  ParsedComponent,
+  ParsedDocPage,
+  ParsedPlugin,
+  ParseError,
+  ServerConfig,
+} from '../types.js';
+import { logger } from './logger.js';
+import { parseComponent, parseDocPage, parsePlugin } from './parser.js';
+import { ScheduleOptions, SchedulerStats, WorkScheduler } from './scheduler.js';
+
+export type ParseKind = 'plugin' | 'component' | 'docs';
+
+export type ParseResult = ParsedPlugin | ParsedComponent | ParsedDocPage;
+
+/**
+ * Message sent to a parse worker
+ */
+export interface ParseRequest {
+  kind: ParseKind;
+  code: string;
+}
+
+/**
+ * Message a parse worker answers with
+ */
+export type ParseReply =
+  | { result: ParseResult; error?: undefined }
+  | { error: string; result?: undefined };
+
+/**
+ * Sent once by a parse worker when its modules have loaded
+ */
+export const PARSE_WORKER_READY = 'ready';
+
+export interface ParseJobOptions extends ScheduleOptions {
+  /**
+   * Parse sources smaller than `performance.workerMinInputBytes` on the
+   * calling thread, where posting them to a worker costs more than it saves
+   */
+  largeInputsOnly?: boolean;
+}
+
+export interface ParsePoolStats extends SchedulerStats {
+  /** Worker threads currently running; 0 when parsing on the main thread */
+  workers: number;
+}
+
+/**
+ * Runs parser jobs on worker threads, queued through a WorkScheduler so
+ * priorities and cancellation behave as for any other scheduled work.
+ * Without a worker script, or with `performance.parseWorkers` at 0, jobs
+ * run on the main thread.
+ */
+export class ParsePool {
+  private scheduler: WorkScheduler;
+  private workerScript?: string;
+  private minInputBytes: number;
+  private idle: Worker[] = [];
+  private workers = new Set<Worker>();
+  /** Workers that reported PARSE_WORKER_READY */
+  private started = new WeakSet<Worker>();
+
+  /**
+   * @param workerScript Compiled parseWorker.js; omitted when running from
+   *   source, where worker threads cannot load TypeScript
+   */
+  constructor(
+    config: Pick<ServerConfig['performance'], 'maxConcurrentOperations' | 'parseWorkers' | 'workerMinInputBytes'>,
+    workerScript?: string
+  ) {
+    this.workerScript = config.parseWorkers > 0 ? workerScript : undefined;
+    this.minInputBytes = config.workerMinInputBytes;
+    this.scheduler = new WorkScheduler(
+      'parse',
+      this.workerScript ? config.parseWorkers : config.maxConcurrentOperations
+    );
+  }
+
+  parsePlugin(code: string, options: ParseJobOptions = {}): Promise<ParsedPlugin> {
+    return this.run('plugin', code, options) as Promise<ParsedPlugin>;
+  }
+
+  parseComponent(code: string, options: ParseJobOptions = {}): Promise<ParsedComponent> {
+    return this.run('component', code, options) as Promise<ParsedComponent>;
+  }
+
+  parseDocPage(code: string, options: ParseJobOptions = {}): Promise<ParsedDocPage> {
+    return this.run('docs', code, options) as Promise<ParsedDocPage>;
+  }
+
+  stats(): ParsePoolStats {
+    return { ...this.scheduler.stats(), workers: this.workers.size };
+  }
+
+  /**
+   * Stop every worker thread
+   */
+  async close(): Promise<void> {
+    const workers = [...this.workers];
+    this.workers.clear();
+    this.idle = [];
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+
+  private run(kind: ParseKind, code: string, options: ParseJobOptions): Promise<ParseResult> {
+    const { largeInputsOnly, ...scheduleOptions } = options;
+    const inline = largeInputsOnly && Buffer.byteLength(code) < this.minInputBytes;
+
+    return this.scheduler.run(
+      signal => this.workerScript && !inline
+        ? this.runOnWorker(kind, code, signal)
+        : parseInline(kind, code),
+      scheduleOptions
+    );
+  }
+
+  /**
+   * Parse on an idle worker. The scheduler never runs more jobs than there
+   * are workers, so one is always free or can be started.
+   */
+  private runOnWorker(kind: ParseKind, code: string, signal: AbortSignal): Promise<ParseResult> {
+    const worker = this.idle.pop() ?? this.spawn();
+    // Busy workers keep the process alive; idle ones must not
+    worker.ref();
+
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        worker.off('message', onMessage);
+        worker.off('error', onError);
+        worker.off('exit', onExit);
+        signal.removeEventListener('abort', onAbort);
+      };
+
+      const onMessage = (reply: ParseReply | typeof PARSE_WORKER_READY) => {
+        if (reply === PARSE_WORKER_READY) {
+          return;
+        }
+        settle();
+        this.release(worker);
+        if (reply.error !== undefined) {
+          reject(new ParseError(reply.error));
+        } else {
+          resolve(reply.result);
+        }
+      };
+
+      const onError = (error: Error) => {
+        settle();
+        this.discard(worker);
+        if (!this.started.has(worker)) {
+          // The script itself failed to load; stop trying workers
+          logger.warn('Parse workers unavailable; parsing on the main thread', { error: error.message });
+          this.workerScript = undefined;
+          parseInline(kind, code).then(resolve, reject);
+          return;
+        }
+        reject(new ParseError(`Parse worker failed: ${error.message}`));
+      };
+
+      const onExit = (exitCode: number) => {
+        settle();
+        this.discard(worker);
+        reject(new ParseError(`Parse worker exited with code ${exitCode}`));
+      };
+
+      // A running parse cannot be interrupted, so the worker is replaced
+      const onAbort = () => {
+        settle();
+        this.discard(worker);
+        void worker.terminate();
+        reject(new CancelledError('Parse was cancelled'));
+      };
+
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      worker.on('exit', onExit);
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      const request: ParseRequest = { kind, code };
+      worker.postMessage(request);
+    });
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(this.workerScript!);
+    this.workers.add(worker);
+    worker.on('message', message => {
+      if (message === PARSE_WORKER_READY) {
+        this.started.add(worker);
+      }
+    });
+    // Failures during a job are reported to it; these keep an idle worker's
+    // failure from being unhandled
+    worker.on('error', error => logger.debug('Parse worker failed', { error: error.message }));
+    worker.on('exit', () => this.discard(worker));
+    logger.debug('Parse worker started', { workers: this.workers.size });
+    return worker;
+  }
+
+  private release(worker: Worker): void {
+    if (this.workers.has(worker)) {
+      worker.unref();
+      this.idle.push(worker);
+    }
+  }
+
+  private discard(worker: Worker): void {
+    this.workers.delete(worker);
+    this.idle = this.idle.filter(idle => idle !== worker);
+  }
+}
+
+/**
+ * Run a parser on the calling thread
+ */
+export function parseInline(kind: ParseKind, code: string): Promise<ParseResult> {
+  switch (kind) {
+    case 'plugin':
+      return parsePlugin(code);
+    case 'component':
+      return parseComponent(code);
+    case 'docs':
+      return parseDocPage(code);
+  }
+}
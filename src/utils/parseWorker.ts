@@ -0,0 +1,18 @@
+/**
+ * Parse worker thread entry point; answers each ParseRequest with a ParseReply
+ */
+
+import { parentPort } from 'worker_threads';
+import { PARSE_WORKER_READY, parseInline, type ParseReply, type ParseRequest } from './parsePool.js';
+
+parentPort?.on('message', async (request: ParseRequest) => {
+  let reply: ParseReply;
+  try {
+    reply = { result: await parseInline(request.kind, request.code) };
+  } catch (error) {
+    reply = { error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(reply);
+});
+
+parentPort?.postMessage(PARSE_WORKER_READY);
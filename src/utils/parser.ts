@@ -1,5 +1,5 @@
 /**
- * Parser utilities for JavaScript and SCSS files
+ * Parser utilities for JavaScript, SCSS and Markdown files
  */
 
 import { parse as babelParse } from '@babel/parser';
@@ -8,9 +8,27 @@ import * as t from '@babel/types';
 
 // Handle both CommonJS and ES module exports from @babel/traverse
 const traverse = (traverseModule as any).default || traverseModule;
-import postcss from 'postcss';
+import postcss, { AtRule, Root } from 'postcss';
 import postcssScss from 'postcss-scss';
-import { ParsedPlugin, ParsedComponent, ParseError } from '../types.js';
+import MarkdownIt from 'markdown-it';
+import {
+  DocsCodeExample,
+  DocsFrontMatter,
+  DocsHeading,
+  DocsSection,
+  ParsedPlugin,
+  ParsedComponent,
+  ParsedDocPage,
+  ParseError,
+  SassCallable,
+  SassClassPattern,
+  SassParameter,
+  SassVariable,
+  PluginEvent,
+  PluginMethod,
+  PluginMethodParam,
+  PluginOption,
+} from '../types.js';
 
 /**
  * Parse JavaScript plugin file
@@ -29,6 +47,9 @@ export async function parsePlugin(code: string): Promise<ParsedPlugin> {
     const events: string[] = [];
     const imports: string[] = [];
     const exports: string[] = [];
+    const options: PluginOption[] = [];
+    const publicMethods: PluginMethod[] = [];
+    const firedEvents = new Map<string, PluginEvent>();
 
     traverse(ast, {
       ImportDeclaration(path: any) {
@@ -82,6 +103,22 @@ export async function parsePlugin(code: string): Promise<ParsedPlugin> {
             }
           }
         });
+
+        if (path.node.id?.name === className) {
+          publicMethods.push(...extractPublicMethods(path.node, code));
+        }
+      },
+
+      // Plugin.defaults = { ... }
+      AssignmentExpression(path: any) {
+        const { left, right } = path.node;
+        if (
+          t.isMemberExpression(left) &&
+          t.isIdentifier(left.property, { name: 'defaults' }) &&
+          t.isObjectExpression(right)
+        ) {
+          options.push(...extractPluginOptions(right, code));
+        }
       },
 
       // Look for event firing patterns
@@ -95,6 +132,7 @@ export async function parsePlugin(code: string): Promise<ParsedPlugin> {
           const firstArg = path.node.arguments[0];
           if (t.isStringLiteral(firstArg)) {
             events.push(firstArg.value);
+            recordFiredEvent(firedEvents, firstArg.value, path, code);
           }
         }
       },
@@ -108,6 +146,9 @@ export async function parsePlugin(code: string): Promise<ParsedPlugin> {
       extendsClass,
       imports,
       exports,
+      options,
+      publicMethods,
+      firedEvents: [...firedEvents.values()],
     };
   } catch (error) {
     throw new ParseError(
@@ -117,6 +158,226 @@ export async function parsePlugin(code: string): Promise<ParsedPlugin> {
   }
 }
 
+/**
+ * Options declared in a `Plugin.defaults` object, described by the JSDoc
+ * block above each property
+ */
+function extractPluginOptions(defaults: t.ObjectExpression, code: string): PluginOption[] {
+  const options: PluginOption[] = [];
+
+  for (const property of defaults.properties) {
+    if (!t.isObjectProperty(property)) {
+      continue;
+    }
+    const name = t.isIdentifier(property.key)
+      ? property.key.name
+      : t.isStringLiteral(property.key) ? property.key.value : null;
+    if (!name) {
+      continue;
+    }
+
+    const doc = parseJSDocBlock(jsdocComment(property));
+    const example = firstTag(doc, 'example');
+
+    options.push({
+      name,
+      type: firstTag(doc, 'type')?.replace(/^\{(.*)\}$/, '$1') || inferValueType(property.value),
+      default: firstTag(doc, 'default') || code.slice(property.value.start!, property.value.end!),
+      description: doc.description,
+      dataAttribute: `data-${toKebabCase(name)}`,
+      ...(example ? { example } : {}),
+    });
+  }
+
+  return options;
+}
+
+/**
+ * Public methods of a plugin class, with parameters merged from their
+ * `@param` tags
+ */
+function extractPublicMethods(classNode: t.ClassDeclaration, code: string): PluginMethod[] {
+  const methods: PluginMethod[] = [];
+
+  for (const member of classNode.body.body) {
+    if (
+      !t.isClassMethod(member) ||
+      member.kind !== 'method' ||
+      member.static ||
+      !t.isIdentifier(member.key) ||
+      member.key.name.startsWith('_')
+    ) {
+      continue;
+    }
+
+    const doc = parseJSDocBlock(jsdocComment(member));
+    const paramDocs = doc.tags.filter(entry => entry.tag === 'param').map(entry => parseParamTag(entry.text));
+    const params = member.params.map((param): PluginMethodParam => {
+      const { name, optional, defaultValue } = describeParam(param, code);
+      const paramDoc = paramDocs.find(entry => entry.name === name);
+      return {
+        name,
+        ...(paramDoc?.type ? { type: paramDoc.type } : {}),
+        ...(paramDoc?.description ? { description: paramDoc.description } : {}),
+        optional: optional || Boolean(paramDoc?.optional),
+        ...(defaultValue ?? paramDoc?.default ? { default: defaultValue ?? paramDoc?.default } : {}),
+      };
+    });
+    const returns = (firstTag(doc, 'returns') ?? firstTag(doc, 'return'))?.match(/^\{([^}]*)\}/)?.[1];
+
+    methods.push({
+      name: member.key.name,
+      signature: `${member.key.name}(${params.map(param => param.optional ? `[${param.name}]` : param.name).join(', ')})`,
+      params,
+      description: doc.description,
+      ...(returns ? { returns } : {}),
+    });
+  }
+
+  return methods;
+}
+
+/**
+ * Name of a method parameter as written in the source
+ */
+function describeParam(param: t.Node, code: string): { name: string; optional: boolean; defaultValue?: string } {
+  if (t.isIdentifier(param)) {
+    return { name: param.name, optional: false };
+  }
+  if (t.isAssignmentPattern(param)) {
+    return {
+      name: describeParam(param.left, code).name,
+      optional: true,
+      defaultValue: code.slice(param.right.start!, param.right.end!),
+    };
+  }
+  if (t.isRestElement(param)) {
+    return { name: `...${describeParam(param.argument, code).name}`, optional: true };
+  }
+  return { name: code.slice(param.start!, param.end!), optional: false };
+}
+
+/**
+ * `{type} name - description`, with `[name=default]` for optional parameters
+ */
+function parseParamTag(text: string): PluginMethodParam {
+  const match = text.match(/^(?:\{([^}]*)\}\s*)?(\[[^\]]*\]|\S+)\s*(?:-\s*)?([\s\S]*)$/);
+  if (!match) {
+    return { name: text, optional: false };
+  }
+
+  const [, type, rawName, description] = match;
+  const optional = rawName.startsWith('[');
+  const [name, defaultValue] = rawName.replace(/^\[|\]$/g, '').split('=', 2);
+  return {
+    name,
+    ...(type ? { type } : {}),
+    ...(description ? { description: description.trim() } : {}),
+    optional,
+    ...(defaultValue ? { default: defaultValue } : {}),
+  };
+}
+
+/**
+ * Record an event fired by `.trigger()`. Its description comes from an
+ * `@event` JSDoc block above the statement that fires it.
+ */
+function recordFiredEvent(events: Map<string, PluginEvent>, name: string, path: any, code: string): void {
+  const receiver = path.node.callee.object;
+  const firedFrom = code.slice(receiver.start, receiver.end);
+  const doc = parseJSDocBlock(jsdocComment(path.getStatementParent()?.node ?? path.node));
+  const description = doc.tags.some(entry => entry.tag === 'event') ? doc.description : '';
+
+  const known = events.get(name);
+  if (!known) {
+    events.set(name, { name, description, firedFrom: [firedFrom] });
+    return;
+  }
+  if (!known.description) {
+    known.description = description;
+  }
+  if (!known.firedFrom.includes(firedFrom)) {
+    known.firedFrom.push(firedFrom);
+  }
+}
+
+interface JSDocBlock {
+  description: string;
+  tags: Array<{ tag: string; text: string }>;
+}
+
+/**
+ * Text of the JSDoc block closest above a node, or '' without one
+ */
+function jsdocComment(node: t.Node): string {
+  const comment = [...(node.leadingComments ?? [])]
+    .reverse()
+    .find(candidate => candidate.type === 'CommentBlock' && candidate.value.startsWith('*'));
+  return comment?.value ?? '';
+}
+
+/**
+ * Description and tags in the text of a JSDoc block. Lines after a tag
+ * continue its text.
+ */
+function parseJSDocBlock(block: string): JSDocBlock {
+  const lines = block
+    .split('\n')
+    .map(line => line.replace(/^\s*\*+\s?/, '').trim());
+  const description: string[] = [];
+  const tags: JSDocBlock['tags'] = [];
+
+  for (const line of lines) {
+    const tag = line.match(/^@(\w+)\s*(.*)$/);
+    if (tag) {
+      tags.push({ tag: tag[1], text: tag[2] });
+    } else if (tags.length > 0 && line) {
+      tags[tags.length - 1].text = `${tags[tags.length - 1].text} ${line}`.trim();
+    } else if (line) {
+      description.push(line);
+    }
+  }
+
+  return { description: description.join(' '), tags };
+}
+
+function firstTag(doc: JSDocBlock, tag: string): string | undefined {
+  return doc.tags.find(entry => entry.tag === tag)?.text;
+}
+
+/**
+ * JSDoc type name for a literal default value
+ */
+function inferValueType(value: t.Node): string {
+  if (t.isNumericLiteral(value) || t.isUnaryExpression(value, { operator: '-' })) {
+    return 'number';
+  }
+  if (t.isStringLiteral(value) || t.isTemplateLiteral(value)) {
+    return 'string';
+  }
+  if (t.isBooleanLiteral(value)) {
+    return 'boolean';
+  }
+  if (t.isArrayExpression(value)) {
+    return 'array';
+  }
+  if (t.isObjectExpression(value)) {
+    return 'object';
+  }
+  if (t.isFunction(value)) {
+    return 'function';
+  }
+  return '*';
+}
+
+/**
+ * `slideSpeed` to `slide-speed`, the inverse of how jQuery maps `data-`
+ * attributes to option names
+ */
+export function toKebabCase(name: string): string {
+  return name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+}
+
 /**
  * Parse SCSS component file
  */
@@ -196,6 +457,8 @@ export async function parseComponent(code: string): Promise<ParsedComponent> {
       variables,
       mixins,
       classes,
+      ...extractSassDeclarations(result.root),
+      classPatterns: extractClassPatterns(result.root),
     };
   } catch (error) {
     throw new ParseError(
@@ -205,6 +468,332 @@ export async function parseComponent(code: string): Promise<ParsedComponent> {
   }
 }
 
+/**
+ * Top-level variable, function and mixin declarations with the `///`
+ * SassDoc block above them. Variables also record the `// 1. Global` style
+ * section heading they follow.
+ */
+function extractSassDeclarations(root: Root): Pick<ParsedComponent, 'settings' | 'callables'> {
+  const settings: SassVariable[] = [];
+  const callables: SassCallable[] = [];
+  let section: string | null = null;
+  let doc: string[] = [];
+
+  for (const node of root.nodes) {
+    if (node.type === 'comment') {
+      // postcss-scss keeps one slash of `///`, and two of a `////` group block
+      if (node.text.startsWith('/') && !node.text.startsWith('//')) {
+        doc.push(node.text.slice(1).trim());
+        continue;
+      }
+      const heading = node.text.match(/^\d+\.\s+(.+)$/);
+      if (heading) {
+        section = heading[1].trim();
+      }
+      doc = [];
+      continue;
+    }
+
+    const sassDoc = parseJSDocBlock(doc.join('\n'));
+
+    if (node.type === 'decl' && node.prop.startsWith('$')) {
+      settings.push({
+        name: node.prop,
+        value: node.value.replace(/\s*!(default|global)\b/g, '').trim(),
+        isDefault: /!default\b/.test(node.value),
+        type: firstTag(sassDoc, 'type') || null,
+        description: sassDoc.description,
+        section,
+      });
+    } else if (node.type === 'atrule' && (node.name === 'function' || node.name === 'mixin')) {
+      callables.push(describeSassCallable(node.name, node.params, sassDoc));
+    }
+    doc = [];
+  }
+
+  return { settings, callables };
+}
+
+/**
+ * A function or mixin from its `@function`/`@mixin` parameters, with types
+ * and descriptions from its SassDoc `@param` and `@return` tags
+ */
+function describeSassCallable(kind: SassCallable['kind'], declaration: string, doc: JSDocBlock): SassCallable {
+  const signature = declaration.replace(/\s+/g, ' ').replace(/\(\s+/, '(').replace(/\s+\)$/, ')').trim();
+  const open = signature.indexOf('(');
+  const name = (open === -1 ? signature : signature.slice(0, open)).trim();
+  const argumentList = open === -1 ? '' : signature.slice(open + 1, signature.lastIndexOf(')'));
+
+  const documented = new Map(doc.tags
+    .filter(entry => entry.tag === 'param' || entry.tag === 'parameter' || entry.tag === 'arg')
+    .map(entry => parseSassParamTag(entry.text))
+    .map(param => [param.name.replace(/\.\.\.$/, ''), param]));
+
+  const params = splitSassArguments(argumentList).map(argument => {
+    const match = argument.match(/^(\$[\w-]+(?:\.\.\.)?)\s*(?::\s*([\s\S]+))?$/);
+    const paramName = match?.[1] ?? argument;
+    const docs = documented.get(paramName.replace(/\.\.\.$/, ''));
+    return {
+      name: paramName,
+      default: match?.[2]?.trim() ?? docs?.default ?? null,
+      type: docs?.type ?? null,
+      description: docs?.description ?? '',
+    };
+  });
+
+  const returns = firstTag(doc, 'return') ?? firstTag(doc, 'returns');
+  return {
+    name,
+    kind,
+    signature,
+    params,
+    returns: kind === 'function' ? returns?.match(/^\{([^}]*)\}/)?.[1] ?? null : null,
+    description: doc.description,
+    isPrivate: name.startsWith('-') || firstTag(doc, 'access') === 'private',
+  };
+}
+
+/**
+ * `{Type} $name [default] - description`
+ */
+function parseSassParamTag(text: string): SassParameter {
+  const match = text.match(/^(?:\{([^}]*)\}\s*)?(\S+)\s*(?:\[([^\]]*)\]\s*)?(?:-\s*)?([\s\S]*)$/);
+  return {
+    name: match?.[2] ?? text,
+    default: match?.[3]?.trim() || null,
+    type: match?.[1]?.trim() || null,
+    description: match?.[4]?.trim() ?? '',
+  };
+}
+
+/**
+ * Classes selected by each rule, the last compound of every selector only,
+ * so `.grid-x > .auto` yields `auto`
+ */
+function extractClassPatterns(root: Root): SassClassPattern[] {
+  const patterns = new Map<string, SassClassPattern>();
+
+  root.walkRules(rule => {
+    const ancestors: AtRule[] = [];
+    for (let parent = rule.parent; parent && parent.type !== 'root'; parent = parent.parent) {
+      if (parent.type === 'atrule') {
+        ancestors.push(parent as AtRule);
+      }
+    }
+    const mixin = ancestors.find(ancestor => ancestor.name === 'mixin')?.params.split('(')[0].trim() ?? null;
+    const insideBreakpoint = ancestors.some(isBreakpointRule);
+
+    for (const selector of rule.selectors) {
+      const subject = selector.split(/\s*[>+~]\s*|\s+(?![^{]*\})/).pop()!.replace(/\([^)]*\)/g, '');
+
+      for (const [, className] of subject.matchAll(/\.((?:[\w-]|#\{[^}]*\})+)/g)) {
+        const pattern = className.replace(/#\{\s*([^}]*?)\s*\}/g, (_, expression: string) =>
+          `{${interpolationPlaceholder(expression, ancestors)}}`);
+        const responsive = insideBreakpoint || pattern.includes('{breakpoint}');
+
+        const known = patterns.get(pattern);
+        if (known) {
+          known.responsive = known.responsive || responsive;
+        } else {
+          patterns.set(pattern, { pattern, responsive, mixin });
+        }
+      }
+    }
+  });
+
+  return [...patterns.values()];
+}
+
+/**
+ * `@include breakpoint(...)`, Foundation's per-breakpoint loops, or a
+ * width media query
+ */
+function isBreakpointRule(rule: AtRule): boolean {
+  switch (rule.name) {
+    case 'include':
+      return /^(breakpoint|-zf-each-breakpoint)\b/.test(rule.params);
+    case 'each':
+      return /\$(breakpoint-classes|breakpoints)\b/.test(rule.params);
+    case 'media':
+      return /width/.test(rule.params);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Placeholder name for an interpolated selector expression: `breakpoint`
+ * for the breakpoint loop variables, `n` for `@for` counters, else the
+ * variable name
+ */
+function interpolationPlaceholder(expression: string, ancestors: AtRule[]): string {
+  if (!/^\$[\w-]+$/.test(expression)) {
+    return 'value';
+  }
+  if (expression === '$-zf-size') {
+    return 'breakpoint';
+  }
+
+  // `@for $i from ...` and `@each $key, $value in ...` declare their variables first
+  const loop = ancestors.find(ancestor =>
+    (ancestor.name === 'for' || ancestor.name === 'each') &&
+    ancestor.params.split(/\s+(?:from|in)\s+/)[0].split(',').map(name => name.trim()).includes(expression));
+  if (loop?.name === 'for') {
+    return 'n';
+  }
+  if (loop && isBreakpointRule(loop)) {
+    return 'breakpoint';
+  }
+  return expression.replace(/^\$(-zf-)?/, '');
+}
+
+/**
+ * Split an argument list on its top-level commas
+ */
+function splitSassArguments(argumentList: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of argumentList) {
+    if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      args.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  args.push(current);
+
+  return args.map(argument => argument.trim()).filter(Boolean);
+}
+
+const markdown = new MarkdownIt({ html: true });
+
+/**
+ * Parse a docs page: its front-matter, headings, level 2 sections and
+ * fenced code examples
+ */
+export async function parseDocPage(source: string): Promise<ParsedDocPage> {
+  try {
+    const frontMatter = source.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+    const body = frontMatter ? source.slice(frontMatter[0].length) : source;
+    const lines = body.split('\n');
+    const tokens = markdown.parse(body, {});
+
+    const headings: DocsHeading[] = [];
+    const sections: DocsSection[] = [];
+    const examples: DocsCodeExample[] = [];
+    let section: string | null = null;
+    let sectionStart = 0;
+
+    const closeSection = (end: number) => {
+      const content = lines.slice(sectionStart, end).join('\n').trim();
+      if (section !== null || content) {
+        sections.push({ heading: section, content });
+      }
+    };
+
+    tokens.forEach((token, position) => {
+      if (token.type === 'heading_open' && token.map) {
+        const level = Number(token.tag.slice(1));
+        const inline = tokens[position + 1];
+        const text = inline.children
+          ?.filter(child => child.type === 'text' || child.type === 'code_inline')
+          .map(child => child.content)
+          .join('') ?? inline.content;
+        headings.push({ level, text, anchor: headingAnchor(text) });
+
+        if (level <= 2) {
+          closeSection(token.map[0]);
+          section = text;
+          sectionStart = token.map[1];
+        }
+      } else if (token.type === 'fence') {
+        examples.push({
+          language: token.info.trim().split(/\s+/)[0] || null,
+          code: token.content,
+          section,
+        });
+      }
+    });
+    closeSection(lines.length);
+
+    return {
+      frontMatter: readFrontMatter(frontMatter?.[1] ?? ''),
+      headings,
+      sections,
+      examples,
+      body: body.trim(),
+    };
+  } catch (error) {
+    throw new ParseError(
+      `Failed to parse docs page: ${(error as Error).message}`,
+      { code: source }
+    );
+  }
+}
+
+/**
+ * The fields a docs page uses from its front-matter, a YAML subset of
+ * scalars and lists
+ */
+function readFrontMatter(yaml: string): DocsFrontMatter {
+  const fields: Record<string, string | string[]> = {};
+  let list: string[] | null = null;
+
+  for (const line of yaml.split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && list) {
+      list.push(unquote(item[1]));
+      continue;
+    }
+
+    const field = line.match(/^([\w-]+):\s*(.*)$/);
+    list = null;
+    if (!field) {
+      continue;
+    }
+    const [, key, value] = field;
+    if (value === '') {
+      fields[key] = list = [];
+    } else if (/^\[.*\]$/.test(value)) {
+      fields[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+    } else {
+      fields[key] = unquote(value);
+    }
+  }
+
+  const scalar = (key: string) => typeof fields[key] === 'string' ? fields[key] as string : null;
+  const listOf = (key: string) => fields[key] === undefined ? [] : ([] as string[]).concat(fields[key]);
+  return {
+    title: scalar('title'),
+    description: scalar('description'),
+    sass: listOf('sass'),
+    js: listOf('js'),
+    tags: listOf('tags'),
+  };
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/**
+ * Fragment id of a heading, as the docs site generates it
+ */
+function headingAnchor(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/[\s_]+/g, '-');
+}
+
 /**
  * Extract JSDoc comments from code
  */
@@ -0,0 +1,192 @@
+/**
+ * Restricts file-path tool inputs to workspace roots
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { NotFoundError, ValidationError } from '../types.js';
+import { fileExists, readFile } from './fileSystem.js';
+import { logger } from './logger.js';
+
+/**
+ * File access for one session, limited to its roots
+ */
+export interface SessionFiles {
+  /** Directories the session may read from, client roots first */
+  roots(): Promise<string[]>;
+  /** Absolute path of a file inside the roots; relative paths resolve against the first root */
+  resolve(filePath: string): Promise<string>;
+  readFile(filePath: string): Promise<string>;
+}
+
+/**
+ * Local path of a `file://` root URI; other schemes have no local path
+ */
+export function rootUriToPath(uri: string): string | undefined {
+  if (!uri.startsWith('file:')) {
+    return undefined;
+  }
+  try {
+    return fileURLToPath(uri);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a path is the root itself or inside it
+ */
+export function isInsideRoot(filePath: string, root: string): boolean {
+  const relative = path.relative(root, filePath);
+  return !(relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative));
+}
+
+export class PathSandbox {
+  private configuredRoots: string[];
+  private acceptClientRoots: boolean;
+  private sessionRoots = new Map<string, Promise<string[]>>();
+
+  /**
+   * @param configuredRoots Roots every session may read: the Foundation
+   *   repository and the other configured workspaces
+   * @param acceptClientRoots Whether clients may declare roots; remote
+   *   clients must not, since their roots are not on this machine
+   */
+  constructor(configuredRoots: string[], acceptClientRoots = true) {
+    this.configuredRoots = [...new Set(configuredRoots.map(root => path.resolve(root)))];
+    this.acceptClientRoots = acceptClientRoots;
+  }
+
+  /**
+   * Ask a session's client for its roots, if it supports them. Only
+   * `file://` roots grant file access.
+   */
+  refreshClientRoots(server: Server, sessionId: string): void {
+    if (!server.getClientCapabilities()?.roots) {
+      return;
+    }
+    if (!this.acceptClientRoots) {
+      logger.debug('Ignoring client roots', { sessionId });
+      return;
+    }
+
+    this.setSessionRoots(
+      sessionId,
+      server.listRoots().then(({ roots }) => roots
+        .map(root => rootUriToPath(root.uri))
+        .filter((root): root is string => root !== undefined))
+    );
+  }
+
+  /**
+   * Set the roots a client declared. They are narrowed to the configured
+   * roots, so a client can focus a session but never widen it. A failed
+   * lookup leaves the session with the configured roots only.
+   */
+  setSessionRoots(sessionId: string, roots: string[] | Promise<string[]>): void {
+    this.sessionRoots.set(
+      sessionId,
+      Promise.resolve(roots)
+        .then(list => this.narrowToConfigured(list))
+        .then(list => {
+          logger.debug('Client roots updated', { sessionId, roots: list });
+          return list;
+        })
+        .catch(error => {
+          logger.warn('Failed to read client roots', { sessionId, error: String(error) });
+          return [];
+        })
+    );
+  }
+
+  /**
+   * Set the roots of a session that acts for the local user, as given
+   */
+  setTrustedRoots(sessionId: string, roots: string[]): void {
+    this.sessionRoots.set(sessionId, Promise.resolve(roots.map(root => path.resolve(root))));
+  }
+
+  removeSession(sessionId: string): void {
+    this.sessionRoots.delete(sessionId);
+  }
+
+  async roots(sessionId: string): Promise<string[]> {
+    const clientRoots = (await this.sessionRoots.get(sessionId)) ?? [];
+    return [...new Set([...clientRoots, ...this.configuredRoots])];
+  }
+
+  /**
+   * Intersect client roots with the configured roots. Client roots are
+   * compared by real path, so a symlink cannot lead one outside.
+   */
+  private async narrowToConfigured(clientRoots: string[]): Promise<string[]> {
+    const narrowed: string[] = [];
+    for (const clientRoot of clientRoots) {
+      const realRoot = await realpathOrSelf(path.resolve(clientRoot));
+      for (const configuredRoot of this.configuredRoots) {
+        const realConfigured = await realpathOrSelf(configuredRoot);
+        if (isInsideRoot(realRoot, realConfigured)) {
+          narrowed.push(realRoot);
+        } else if (isInsideRoot(realConfigured, realRoot)) {
+          narrowed.push(configuredRoot);
+        }
+      }
+    }
+    return [...new Set(narrowed)];
+  }
+
+  /**
+   * Resolve a path and check it stays inside the session's roots after
+   * following symlinks
+   */
+  async resolve(sessionId: string, filePath: string): Promise<string> {
+    const roots = await this.roots(sessionId);
+    const candidate = path.resolve(roots[0] ?? process.cwd(), filePath);
+    const realPath = await realpathOrSelf(candidate);
+
+    for (const root of roots) {
+      if (isInsideRoot(realPath, root) || isInsideRoot(realPath, await realpathOrSelf(root))) {
+        return realPath;
+      }
+    }
+
+    // Details reach the client; the roots stay in the server log
+    logger.warn('Path outside the workspace roots', { sessionId, path: filePath, roots });
+    throw new ValidationError(`Path is outside the workspace roots: ${filePath}`, { path: filePath });
+  }
+
+  /**
+   * Read a file inside the session's roots
+   */
+  async readFile(sessionId: string, filePath: string): Promise<string> {
+    const resolved = await this.resolve(sessionId, filePath);
+    if (!(await fileExists(resolved))) {
+      throw new NotFoundError(`File not found: ${filePath}`, { path: filePath });
+    }
+    return readFile(resolved);
+  }
+
+  /**
+   * File access bound to one session
+   */
+  forSession(sessionId: string): SessionFiles {
+    return {
+      roots: () => this.roots(sessionId),
+      resolve: (filePath) => this.resolve(sessionId, filePath),
+      readFile: (filePath) => this.readFile(sessionId, filePath),
+    };
+  }
+}
+
+/**
+ * Real path of an existing file; a missing file keeps its resolved path
+ */
+async function realpathOrSelf(filePath: string): Promise<string> {
+  try {
+    return await fs.realpath(filePath);
+  } catch {
+    return filePath;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Progress reporting and cancellation helpers for long-running operations
+ */
+
+import { CancelledError, OperationContext } from '../types.js';
+
+/**
+ * Throw if the operation has been cancelled
+ */
+export function throwIfCancelled(context: OperationContext | undefined, operation: string): void {
+  if (context?.signal?.aborted) {
+    throw new CancelledError(`${operation} was cancelled`);
+  }
+}
+
+/**
+ * Counts completed steps of an operation and reports them
+ */
+export class ProgressTracker {
+  private completed = 0;
+
+  constructor(
+    private total: number,
+    private context?: OperationContext
+  ) {}
+
+  /**
+   * Report the current phase without completing a step
+   */
+  phase(message: string): void {
+    this.report(message);
+  }
+
+  /**
+   * Mark one step as done
+   */
+  step(message: string): void {
+    this.completed = Math.min(this.completed + 1, this.total);
+    this.report(message);
+  }
+
+  private report(message: string): void {
+    this.context?.onProgress?.({
+      progress: this.completed,
+      total: this.total,
+      message,
+    });
+  }
+}
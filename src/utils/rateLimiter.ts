@@ -0,0 +1,136 @@
+/**
+ * Token-bucket rate limiting for Foundation MCP Server
+ */
+
+import { LRUCache } from 'lru-cache';
+import { ServerConfig } from '../types.js';
+
+/**
+ * Budget a call is charged against
+ */
+export type RateLimitBucket = 'default' | 'expensive';
+
+/**
+ * Tools that draw from the smaller "expensive" budget.
+ * rebuild_index forces a full index rebuild of the Foundation repository.
+ */
+export const EXPENSIVE_TOOLS: ReadonlySet<string> = new Set([
+  'refactor_to_foundation',
+  'rebuild_index',
+]);
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  bucket: RateLimitBucket;
+  limit: number;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+/**
+ * Classic token bucket that refills continuously
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private refillPerMs: number;
+
+  constructor(private capacity: number, now: number) {
+    this.tokens = capacity;
+    this.lastRefill = now;
+    this.refillPerMs = capacity / 60_000;
+  }
+
+  /**
+   * Take one token if available. Returns 0 on success, otherwise the number
+   * of milliseconds until a token becomes available.
+   */
+  take(now: number): number {
+    this.refill(now);
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+
+    return Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+
+  /**
+   * Whole tokens currently available
+   */
+  available(now: number): number {
+    this.refill(now);
+    return Math.floor(this.tokens);
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.lastRefill);
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Per-client rate limiter with separate default and expensive budgets
+ */
+export class RateLimiter {
+  private enabled: boolean;
+  private limits: Record<RateLimitBucket, number>;
+  private buckets: LRUCache<string, TokenBucket>;
+  private now: () => number;
+
+  constructor(security: ServerConfig['security'], now: () => number = Date.now) {
+    this.enabled = security.enableRateLimiting;
+    this.limits = {
+      default: security.rateLimitPerMinute,
+      expensive: security.expensiveRateLimitPerMinute,
+    };
+    // Idle clients are evicted once their bucket would be full again anyway
+    this.buckets = new LRUCache({ max: 10_000, ttl: 60_000, updateAgeOnGet: true });
+    this.now = now;
+  }
+
+  /**
+   * Charge a tool call against the client's budget
+   */
+  checkTool(clientId: string, toolName: string): RateLimitDecision {
+    return this.check(clientId, EXPENSIVE_TOOLS.has(toolName) ? 'expensive' : 'default');
+  }
+
+  /**
+   * Charge a resource read against the client's budget
+   */
+  checkResource(clientId: string): RateLimitDecision {
+    return this.check(clientId, 'default');
+  }
+
+  /**
+   * Charge a call against the given bucket
+   */
+  check(clientId: string, bucket: RateLimitBucket): RateLimitDecision {
+    const limit = this.limits[bucket];
+
+    if (!this.enabled) {
+      return { allowed: true, bucket, limit, remaining: limit, retryAfterMs: 0 };
+    }
+
+    const now = this.now();
+    const key = `${clientId}:${bucket}`;
+    let tokenBucket = this.buckets.get(key);
+    if (!tokenBucket) {
+      tokenBucket = new TokenBucket(limit, now);
+      this.buckets.set(key, tokenBucket);
+    }
+
+    const retryAfterMs = tokenBucket.take(now);
+
+    return {
+      allowed: retryAfterMs === 0,
+      bucket,
+      limit,
+      remaining: tokenBucket.available(now),
+      retryAfterMs,
+    };
+  }
+}
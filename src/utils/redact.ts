@@ -0,0 +1,40 @@
+/**
+ * Redaction of local paths and secrets in client-facing output
+ */
+
+import path from 'path';
+import { isInsideRoot } from './pathSandbox.js';
+
+/**
+ * Placeholder for redacted secrets and paths
+ */
+export const REDACTED = 'redacted';
+
+/**
+ * Show a local path relative to the working directory, hiding paths outside it
+ */
+export function redactPath(value: string): string {
+  const resolved = path.resolve(value);
+  if (!isInsideRoot(resolved, process.cwd())) {
+    return REDACTED;
+  }
+  return path.relative(process.cwd(), resolved) || '.';
+}
+
+/**
+ * Hide credentials embedded in a connection URL
+ */
+export function redactUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    if (url.password) {
+      url.password = REDACTED;
+    }
+    if (url.username && url.username !== 'default') {
+      url.username = REDACTED;
+    }
+    return url.toString();
+  } catch {
+    return REDACTED;
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Bounded-concurrency work scheduler for Foundation MCP Server
+ */
+
+import { CancelledError } from '../types.js';
+import { logger } from './logger.js';
+
+export interface ScheduleOptions {
+  /** Higher priorities start first; equal priorities run in FIFO order */
+  priority?: number;
+  /** Aborts the job while queued, and is handed to the job once running */
+  signal?: AbortSignal;
+  /** Label used in logs */
+  label?: string;
+}
+
+export interface SchedulerStats {
+  name: string;
+  maxConcurrent: number;
+  active: number;
+  queued: number;
+  completed: number;
+  cancelled: number;
+}
+
+export type ScheduledJob<T> = (signal: AbortSignal) => Promise<T>;
+
+interface QueuedJob {
+  priority: number;
+  label: string;
+  start: () => void;
+}
+
+/**
+ * Priority queue that caps how many jobs run at once
+ */
+export class WorkScheduler {
+  private name: string;
+  private maxConcurrent: number;
+  private active = 0;
+  private completed = 0;
+  private cancelled = 0;
+  private queue: QueuedJob[] = [];
+
+  constructor(name: string, maxConcurrent: number) {
+    this.name = name;
+    this.maxConcurrent = Math.max(1, maxConcurrent);
+  }
+
+  /**
+   * Run a job once a slot is free
+   */
+  run<T>(job: ScheduledJob<T>, options: ScheduleOptions = {}): Promise<T> {
+    const { priority = 0, label = 'job' } = options;
+    const signal = options.signal ?? new AbortController().signal;
+
+    if (signal.aborted) {
+      this.cancelled++;
+      return Promise.reject(new CancelledError(`${label} was cancelled before it started`));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        const position = this.queue.indexOf(entry);
+        if (position !== -1) {
+          this.queue.splice(position, 1);
+          this.cancelled++;
+          logger.debug('Queued job cancelled', { scheduler: this.name, label });
+          reject(new CancelledError(`${label} was cancelled while queued`));
+        }
+      };
+
+      const entry: QueuedJob = {
+        priority,
+        label,
+        start: () => {
+          signal.removeEventListener('abort', onAbort);
+          this.active++;
+          Promise.resolve()
+            .then(() => job(signal))
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.completed++;
+              this.drain();
+            });
+        },
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.enqueue(entry);
+      this.drain();
+    });
+  }
+
+  /**
+   * Current queue depth and throughput counters
+   */
+  stats(): SchedulerStats {
+    return {
+      name: this.name,
+      maxConcurrent: this.maxConcurrent,
+      active: this.active,
+      queued: this.queue.length,
+      completed: this.completed,
+      cancelled: this.cancelled,
+    };
+  }
+
+  /**
+   * Insert a job behind every job of equal or higher priority
+   */
+  private enqueue(entry: QueuedJob): void {
+    const index = this.queue.findIndex(queued => queued.priority < entry.priority);
+    if (index === -1) {
+      this.queue.push(entry);
+    } else {
+      this.queue.splice(index, 0, entry);
+    }
+
+    if (this.active >= this.maxConcurrent) {
+      logger.debug('Job queued', {
+        scheduler: this.name,
+        label: entry.label,
+        queued: this.queue.length,
+      });
+    }
+  }
+
+  /**
+   * Start queued jobs while slots are free
+   */
+  private drain(): void {
+    while (this.active < this.maxConcurrent && this.queue.length > 0) {
+      const next = this.queue.shift()!;
+      next.start();
+    }
+  }
+}